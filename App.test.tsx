@@ -0,0 +1,124 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import JSZip from 'jszip';
+import App from './App';
+import { SettingsProvider } from './components/SettingsContext';
+import { getAnnotations, getChapterContent, getLibrary, getReadingPosition, saveAnnotation, saveLibrary, saveReadingPosition, saveSetting } from './services/storageService';
+import { createBookmark } from './services/annotationService';
+import { parseMarkdown } from './services/markdownService';
+import { cancelDownload } from './services/downloadManager';
+import { getAiBackendId } from './services/aiBackend';
+
+const renderApp = async () => {
+  render(<SettingsProvider><App /></SettingsProvider>);
+  // The backend choice is read from storage on startup
+  await waitFor(() => expect(getAiBackendId()).toBe('mock'));
+};
+
+// The mock backend answers after 300ms; the first render of a run can take longer than that
+const MOCK_WAIT = { timeout: 3000 };
+
+// Adds the first search result for `query` and returns its title
+const installFromSearch = async (query: string) => {
+  fireEvent.click(screen.getByText('DISCOVER'));
+  fireEvent.change(screen.getByPlaceholderText('ENTER KEYWORDS...'), { target: { value: query } });
+  fireEvent.click(screen.getByText('SEARCH'));
+
+  const [install] = await screen.findAllByText('INSTALL', {}, MOCK_WAIT);
+  const card = install.closest('div.group') as HTMLElement;
+  const title = within(card).getByRole('heading').textContent!;
+  fireEvent.click(install);
+
+  await screen.findByText('NOVEL ADDED TO DATABASE.', {}, MOCK_WAIT);
+  await screen.findByText('INSTALLED', {}, MOCK_WAIT);
+  return title;
+};
+
+// Minimal EPUB 3 with one chapter per text
+const makeEpub = async (title: string, chapters: string[]) => {
+  const zip = new JSZip();
+  zip.file('META-INF/container.xml', `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`);
+  zip.file('OEBPS/content.opf', `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="id">urn:test:${title}</dc:identifier><dc:title>${title}</dc:title><dc:creator>Tester</dc:creator>
+  </metadata>
+  <manifest>${chapters.map((_, i) => `<item id="c${i}" href="c${i}.xhtml" media-type="application/xhtml+xml"/>`).join('')}</manifest>
+  <spine>${chapters.map((_, i) => `<itemref idref="c${i}"/>`).join('')}</spine>
+</package>`);
+  chapters.forEach((text, i) => zip.file(`OEBPS/c${i}.xhtml`, `<html xmlns="http://www.w3.org/1999/xhtml"><body><p>${text}</p></body></html>`));
+  return new File([await zip.generateAsync({ type: 'arraybuffer' })], `${title}.epub`, { type: 'application/epub+zip' });
+};
+
+const importFile = (file: File) =>
+  fireEvent.change(document.querySelector('input[accept^=".epub"]')!, { target: { files: [file] } });
+
+beforeEach(async () => {
+  // Deterministic offline backend; no API key or network needed
+  await saveSetting('aiBackend', 'mock');
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  (await getLibrary()).forEach(item => cancelDownload(item.id));
+});
+
+describe('library', () => {
+  it('adds a search result to the library', async () => {
+    await renderApp();
+
+    const title = await installFromSearch('add flow');
+
+    fireEvent.click(screen.getByText('LIBRARY'));
+    expect(await screen.findByText(title)).toBeTruthy();
+    await waitFor(async () => expect((await getLibrary()).map(n => n.title)).toContain(title));
+  });
+
+  it('deletes an entry after confirmation', async () => {
+    await renderApp();
+    const title = await installFromSearch('delete flow');
+    fireEvent.click(screen.getByText('LIBRARY'));
+    await screen.findByText(title);
+
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false);
+    const [deleteButton] = screen.getAllByTitle('Delete from library');
+    fireEvent.click(deleteButton);
+    expect(confirm).toHaveBeenCalledWith("PURGE DATA FOR THIS ENTRY?");
+    expect(screen.getByText(title)).toBeTruthy();
+
+    confirm.mockReturnValueOnce(true);
+    fireEvent.click(deleteButton);
+
+    expect(await screen.findByText('ENTRY PURGED.')).toBeTruthy();
+    expect(screen.queryByText(title)).toBeNull();
+    await waitFor(async () => expect((await getLibrary()).map(n => n.title)).not.toContain(title));
+  });
+});
+
+describe('epub import', () => {
+  it('keeps annotations and progress when the same book is imported again', async () => {
+    await renderApp();
+    importFile(await makeEpub('Reimported Book', ['First text.', 'Second text.']));
+    await screen.findByText('IMPORTED 2 CHAPTERS.');
+
+    const novel = (await getLibrary()).find(n => n.title === 'Reimported Book')!;
+    await saveReadingPosition(novel.id, 2, { paragraph: 0, fraction: 0.5 });
+    await saveAnnotation(createBookmark(novel.id, 2, 0, parseMarkdown('Second text.')));
+    // Restart with the second chapter as the last one read
+    cleanup();
+    await saveLibrary([{ ...novel, lastReadChapterId: '2' }]);
+    await renderApp();
+
+    importFile(await makeEpub('Reimported Book', ['First text.', 'Second text, revised.']));
+    await screen.findByText('UPDATED 2 CHAPTERS.');
+
+    expect(await getChapterContent(novel.id, 2)).toBe('Second text, revised.');
+    expect(await getAnnotations(novel.id)).toHaveLength(1);
+    expect(await getReadingPosition(novel.id, 2)).toMatchObject({ paragraph: 0, fraction: 0.5 });
+    await waitFor(async () => expect((await getLibrary()).find(n => n.id === novel.id)?.lastReadChapterId).toBe('2'));
+  });
+});
@@ -1,8 +1,28 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Novel, LibraryItem, ViewState, ChapterMetadata, ToastMessage } from './types';
-import { searchNovels, downloadChapterContent, getChapterList, getFeaturedNovels } from './services/geminiService';
-import { BookIcon, SearchIcon, HomeIcon, DownloadIcon, CheckIcon, RefreshIcon } from './components/Icons';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Novel, LibraryItem, ViewState, ChapterMetadata, ToastMessage, ToastAction, SearchFocus } from './types';
+import { getFeaturedNovels } from './services/geminiService';
+import { AiError } from './services/aiErrors';
+import { DEFAULT_PROVIDER_ID, getProvider, getProviderForNovel, getSearchProviders } from './services/contentProviders';
+import { getLibrary, saveLibrary, deleteNovelData, moveNovelData, getChapterContent, replaceChapterContents, migrateFromLocalStorage, indexStoredChapters, getSetting, saveSetting } from './services/storageService';
+import { enqueueDownload, requestChapter, streamChapter, cancelDownload, prefetchChapters, cancelPrefetch, restoreDownloadQueue, retryDownloadsFailedWith, setDownloadLibrary, subscribeDownloadEvents, MAX_DOWNLOAD_ATTEMPTS } from './services/downloadManager';
+import { loadApiKey } from './services/apiKeyService';
+import { loadAiConfig } from './services/aiConfigService';
+import { AiBackendId, getAiBackendId, loadAiBackend } from './services/aiBackend';
+import { importEpub, exportEpub } from './services/epubService';
+import { appendChapters, isNearListEnd, mayHaveMoreChapters } from './services/chapterListService';
+import { applyUpdate, canCheckForUpdates, checkForUpdates, markChapterSeen } from './services/updateService';
+import { findDuplicate, findDuplicateGroups, mergeLibraryItems, pickMergeTarget } from './services/novelIdentity';
+import { searchChapters, ChapterSearchHit, NovelSearchResult } from './services/chapterSearchService';
+import { createBackup, readBackup, restoreBackup, findRestoreConflicts, ParsedBackup, RestoreMode, ConflictPolicy } from './services/backupService';
+import { BookIcon, SearchIcon, HomeIcon, DownloadIcon, ExportIcon, CheckIcon, RefreshIcon, SettingsIcon } from './components/Icons';
 import Reader from './components/Reader';
+import DownloadQueue, { useDownloadQueue, DownloadProgressBar } from './components/DownloadQueue';
+import ApiKeySettings from './components/ApiKeySettings';
+import AiConfigEditor from './components/AiConfigEditor';
+import AiBackendSettings from './components/AiBackendSettings';
+import ReadingStats from './components/ReadingStats';
+import ChapterSearchResults from './components/ChapterSearchResults';
+import { useSettings } from './components/SettingsContext';
 
 // --- Toast Component ---
 const ToastContainer = ({ toasts }: { toasts: ToastMessage[] }) => (
@@ -15,20 +35,71 @@ const ToastContainer = ({ toasts }: { toasts: ToastMessage[] }) => (
           'bg-blue-600/30 border-blue-400/50 text-blue-100'}
       `}>
         {t.type === 'loading' && <RefreshIcon className="w-4 h-4 animate-spin" />}
-        <span className="text-xs font-bold font-tech tracking-wide">{t.message}</span>
+        <span className="flex-1 text-xs font-bold font-tech tracking-wide">{t.message}</span>
+        {t.action && (
+          <button onClick={t.action.onClick} className="shrink-0 px-3 py-1 rounded-lg bg-white/10 border border-white/20 text-[10px] font-bold font-tech tracking-widest hover:bg-white/20 active:scale-95 transition-all">
+            {t.action.label}
+          </button>
+        )}
       </div>
     ))}
   </div>
 );
 
+type ToastArgs = [string, ToastMessage['type'], ToastAction?];
+
+// Setting that records the user skipped the first-run key setup
+const KEY_SETUP_DISMISSED = 'apiKeySetupDismissed';
+// Queue the chapters an update check finds for download
+const AUTO_DOWNLOAD_UPDATES = 'autoDownloadUpdates';
+
+// Maps a failed AI request to its toast; `retry` is offered wherever trying again can help
+const aiErrorToast = (err: unknown, fallback: string, onSetKey: () => void, retry?: () => void): ToastArgs => {
+  const retryAction = (label = 'RETRY') => retry ? { label, onClick: retry } : undefined;
+  if (!(err instanceof AiError)) return [fallback, 'error', retryAction()];
+  switch (err.code) {
+    case 'API_KEY_MISSING': return ["API KEY MISSING OR INVALID.", 'error', { label: 'SET KEY', onClick: onSetKey }];
+    case 'QUOTA_EXCEEDED': return ["RATE LIMITED. WAIT A MOMENT.", 'error', retryAction()];
+    case 'SAFETY_BLOCKED': return ["BLOCKED BY SAFETY FILTER.", 'error', retryAction('TRY AGAIN')];
+    case 'NETWORK_ERROR': return ["NETWORK ERROR. CHECK CONNECTION.", 'error', retryAction()];
+    case 'MALFORMED_RESPONSE': return ["UNREADABLE AI RESPONSE.", 'error', retryAction()];
+  }
+};
+
+// Maps a chapter download failure to its toast
+const downloadErrorToast = (err: unknown, onSetKey: () => void, retry?: () => void): ToastArgs => {
+  const message = err instanceof Error ? err.message : undefined;
+  if (message === "STORAGE_FULL") return ["STORAGE FULL. CLEAR CACHE.", 'error'];
+  if (message === "DOWNLOAD_CANCELLED") return ["DOWNLOAD CANCELLED.", 'info'];
+  return aiErrorToast(err, "DOWNLOAD FAILED.", onSetKey, retry);
+};
+
+// Triggers a browser download for a generated file
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 function App() {
   const [view, setView] = useState<ViewState>('library');
   const [library, setLibrary] = useState<LibraryItem[]>([]);
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState(false);
   
   // Search State
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Novel[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchProviderId, setSearchProviderId] = useState(DEFAULT_PROVIDER_ID);
+  // 'catalog' finds new novels through a provider; 'chapters' searches the downloaded text
+  const [searchScope, setSearchScope] = useState<'catalog' | 'chapters'>('catalog');
+  const [chapterResults, setChapterResults] = useState<NovelSearchResult[]>([]);
+  const [searchFocus, setSearchFocus] = useState<SearchFocus | null>(null);
   
   // Featured State
   const [featuredNovels, setFeaturedNovels] = useState<Novel[]>([]);
@@ -36,24 +107,57 @@ function App() {
 
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   
-  // Download Queue (Novel ID -> Chapter ID set)
-  const [activeDownloads, setActiveDownloads] = useState<Set<string>>(new Set());
+  // Novels whose metadata is being fetched for the library
+  const [syncingNovels, setSyncingNovels] = useState<Set<string>>(new Set());
+  // Chapter list fetches in flight, so read-ahead and the next-chapter button share one request
+  const chapterFetchesRef = useRef<Map<string, Promise<LibraryItem>>>(new Map());
+  // Update checks for ongoing novels (on demand, and when the connection comes back)
+  const [isCheckingUpdates, setIsCheckingUpdates] = useState(false);
+  const [autoDownloadUpdates, setAutoDownloadUpdates] = useState(false);
+  const checkUpdatesRef = useRef<(quiet?: boolean) => void>(() => {});
+  const downloadJobs = useDownloadQueue();
   
   // Reading State
   const [activeNovelId, setActiveNovelId] = useState<string | null>(null);
   const [activeChapterId, setActiveChapterId] = useState<string | null>(null);
   const [activeChapterContent, setActiveChapterContent] = useState<string>('');
-  const [isReaderLoading, setIsReaderLoading] = useState(false);
+  // Chapter the reader is waiting on (shown in the loading overlay)
+  const [loadingChapter, setLoadingChapter] = useState<{ novelId: string, chapterNumber: number } | null>(null);
+  // Chapter currently being streamed into the Reader
+  const [isGenerating, setIsGenerating] = useState(false);
+  const streamRef = useRef<AbortController | null>(null);
   
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const { clearNovelSettings, reloadSettings } = useSettings();
+
+  const epubInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  // Backup awaiting the user's merge/replace decision
+  const [pendingRestore, setPendingRestore] = useState<{ backup: ParsedBackup, conflicts: string[] } | null>(null);
+
+  // Novel whose chapter range is being chosen for download
+  const [pendingDownload, setPendingDownload] = useState<LibraryItem | null>(null);
+  const [downloadUpTo, setDownloadUpTo] = useState(10);
+
+  // Library entries that look like the same series, offered for merging
+  const duplicateGroups = useMemo(() => findDuplicateGroups(library), [library]);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  // Gemini API key (entered by the user, see ApiKeySettings); the mock backend needs none
+  const [hasKey, setHasKey] = useState(false);
+  const [showKeySetup, setShowKeySetup] = useState(false);
+  const [aiBackend, setAiBackend] = useState<AiBackendId>(getAiBackendId);
+  const isKeyMissing = !hasKey && aiBackend === 'gemini';
 
   // Helper for Toasts
-  const addToast = (message: string, type: ToastMessage['type'] = 'info') => {
+  const addToast = (message: string, type: ToastMessage['type'] = 'info', action?: ToastAction) => {
     const id = Date.now().toString();
-    setToasts(prev => [...prev, { id, message, type }]);
-    setTimeout(() => {
-      setToasts(prev => prev.filter(t => t.id !== id));
-    }, 3000);
+    const dismiss = () => setToasts(prev => prev.filter(t => t.id !== id));
+    // Using the action dismisses the toast; toasts with an action stay up longer so it can be reached
+    const toastAction = action && { label: action.label, onClick: () => { dismiss(); action.onClick(); } };
+    setToasts(prev => [...prev, { id, message, type, action: toastAction }]);
+    setTimeout(dismiss, action ? 6000 : 3000);
   };
 
   useEffect(() => {
@@ -64,7 +168,7 @@ function App() {
     const handleOffline = () => {
         setIsOnline(false);
         addToast("SYSTEM OFFLINE. LOCAL DATA ONLY.", 'error');
-        if (view === 'search') setView('library');
+        if (getSearchProviders().every(p => p.requiresNetwork)) setSearchScope('chapters');
     };
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
@@ -72,23 +176,63 @@ function App() {
         window.removeEventListener('online', handleOnline);
         window.removeEventListener('offline', handleOffline);
     };
-  }, [view]);
+  }, []);
+
+  // Check for updates when the connection comes back, once `isOnline` has caught up
+  const wasOnlineRef = useRef(isOnline);
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) checkUpdatesRef.current(true);
+    wasOnlineRef.current = isOnline;
+  }, [isOnline]);
 
   // Load library and cached featured
   useEffect(() => {
     try {
-      const savedLib = localStorage.getItem('my_library');
-      if (savedLib) setLibrary(JSON.parse(savedLib));
-
       const savedFeatured = localStorage.getItem('featured_cache');
       if (savedFeatured) setFeaturedNovels(JSON.parse(savedFeatured));
     } catch (e) { console.error(e); }
+
+    const loadLibrary = async () => {
+      try {
+        await migrateFromLocalStorage();
+        // Configure Gemini before the saved queue resumes downloading
+        const [keyConfigured] = await Promise.all([loadApiKey(), loadAiConfig(), loadAiBackend()]);
+        setHasKey(keyConfigured);
+        setAiBackend(getAiBackendId());
+        setAutoDownloadUpdates(!!(await getSetting<boolean>(AUTO_DOWNLOAD_UPDATES)));
+        if (!keyConfigured && getAiBackendId() === 'gemini' && !(await getSetting<boolean>(KEY_SETUP_DISMISSED))) setShowKeySetup(true);
+        const stored = await getLibrary();
+        setLibrary(stored);
+        await restoreDownloadQueue(stored);
+        // Chapters stored before search existed (or migrated) are indexed in the background
+        indexStoredChapters().catch(e => console.error("Search indexing failed", e));
+      } catch (e) {
+        console.error(e);
+        addToast("LOCAL DATABASE UNAVAILABLE.", 'error');
+      } finally {
+        setIsLibraryLoaded(true);
+      }
+    };
+    loadLibrary();
   }, []);
 
-  // Save library changes
+  // Save library changes (only once the stored copy has been loaded, so we never overwrite it with [])
   useEffect(() => {
-    localStorage.setItem('my_library', JSON.stringify(library));
-  }, [library]);
+    if (!isLibraryLoaded) return;
+    saveLibrary(library).catch(e => console.error("Failed to save library", e));
+    setDownloadLibrary(library);
+  }, [library, isLibraryLoaded]);
+
+  // Download notifications (progress itself is shown in the Downloads section)
+  useEffect(() => subscribeDownloadEvents(event => {
+    if (event.type === 'complete' && event.total > 1 && !event.background) {
+      addToast(`${event.title.toUpperCase()}: ${event.total} CHAPTERS SAVED.`, 'success');
+    } else if (event.type === 'failed' && event.error === "STORAGE_FULL") {
+      addToast("STORAGE FULL. DOWNLOADS PAUSED.", 'error');
+    } else if (event.type === 'failed' && event.error === "API_KEY_MISSING") {
+      addToast("API KEY MISSING. DOWNLOADS PAUSED.", 'error', { label: 'SET KEY', onClick: openKeySettings });
+    }
+  }), []);
 
   // Fetch Featured on Mount
   useEffect(() => {
@@ -114,7 +258,22 @@ function App() {
   const handleSearch = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!searchQuery.trim()) return;
-    if (!isOnline) {
+    if (searchScope === 'chapters') {
+      setIsSearching(true);
+      try {
+        const results = await searchChapters(searchQuery, library);
+        setChapterResults(results);
+        if (results.length === 0) addToast("NO MATCHES IN DOWNLOADED CHAPTERS.", 'info');
+      } catch (err) {
+        console.error("Chapter search failed", err);
+        addToast("SEARCH FAILED.", 'error');
+      } finally {
+        setIsSearching(false);
+      }
+      return;
+    }
+    const provider = getProvider(searchProviderId);
+    if (!isOnline && provider.requiresNetwork) {
         addToast("OFFLINE MODE. SEARCH UNAVAILABLE.", 'error');
         return;
     }
@@ -123,28 +282,36 @@ function App() {
     setSearchResults([]); 
     
     try {
-      const results = await searchNovels(searchQuery);
+      const results = provider.search ? await provider.search(searchQuery) : [];
       if (results.length > 0) setSearchResults(results);
       else addToast("NO MATCHING RECORDS FOUND.", 'info');
-    } catch (err: any) {
-      if (err.message === "API_KEY_MISSING") addToast("CONFIG ERROR: API KEY MISSING.", 'error');
-      else addToast("SEARCH FAILED. RETRY?", 'error');
+    } catch (err) {
+      console.error("Search failed", err);
+      addToast(...aiErrorToast(err, "SEARCH FAILED.", openKeySettings, () => handleSearch()));
     } finally {
       setIsSearching(false);
     }
   };
 
   const handleAddToLibrary = async (novel: Novel) => {
-    if (!isOnline) { addToast("NETWORK REQUIRED FOR SYNC.", 'error'); return; }
+    const provider = getProviderForNovel(novel);
+    if (provider.requiresNetwork && !isOnline) { addToast("NETWORK REQUIRED FOR SYNC.", 'error'); return; }
+
+    const existing = findDuplicate(library, novel);
+    if (existing) {
+        addToast("ALREADY IN LIBRARY.", 'info', { label: 'OPEN', onClick: () => handleOpenReader(existing.id, existing.lastReadChapterId) });
+        return;
+    }
     
-    setActiveDownloads(prev => new Set(prev).add(novel.id));
+    setSyncingNovels(prev => new Set(prev).add(novel.id));
     addToast("SYNCING METADATA...", 'loading');
     
     try {
-        const chapters = await getChapterList(novel.title);
+        const chapters = await provider.getChapterList(novel);
         
         const newItem: LibraryItem = {
             ...novel,
+            providerId: provider.id,
             downloaded: true,
             chapters: chapters,
             lastReadChapterId: chapters[0]?.id,
@@ -157,12 +324,13 @@ function App() {
         
         // Auto-download first chapter
         if (chapters.length > 0) {
-            await handleDownloadChapter(newItem, chapters[0], true);
+            await enqueueDownload(newItem, chapters.slice(0, 1));
         }
     } catch (e) {
-        addToast("SYNC FAILED. CHECK CONNECTION.", 'error');
+        console.error("Sync failed", e);
+        addToast(...aiErrorToast(e, "SYNC FAILED. CHECK CONNECTION.", openKeySettings, () => handleAddToLibrary(novel)));
     } finally {
-        setActiveDownloads(prev => {
+        setSyncingNovels(prev => {
             const next = new Set(prev);
             next.delete(novel.id);
             return next;
@@ -170,32 +338,184 @@ function App() {
     }
   };
 
-  const handleDownloadChapter = async (novel: LibraryItem, chapter: ChapterMetadata, silent = false): Promise<boolean> => {
-      const key = `novel_content_${novel.id}_ch${chapter.chapterNumber}`;
-      if (localStorage.getItem(key)) return true;
+  const handleImportEpub = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    let current = library;
+    for (const file of files) {
+        addToast(`IMPORTING ${file.name.toUpperCase()}...`, 'loading');
+        try {
+            const { novel, contents } = await importEpub(file);
+            const existing = findDuplicate(current, novel);
+            if (existing && existing.id !== novel.id) {
+                addToast("ALREADY IN LIBRARY.", 'info', { label: 'OPEN', onClick: () => handleOpenReader(existing.id, existing.lastReadChapterId) });
+                continue;
+            }
+            // Importing the same book again updates its text but keeps the reader's progress and notes
+            await replaceChapterContents(novel.id, contents);
+            const item: LibraryItem = existing ? {
+                ...novel,
+                savedAt: existing.savedAt,
+                lastReadChapterId: novel.chapters.some(c => c.id === existing.lastReadChapterId) ? existing.lastReadChapterId : novel.lastReadChapterId,
+            } : novel;
+            current = [item, ...current.filter(n => n.id !== item.id)];
+            setLibrary(prev => [item, ...prev.filter(n => n.id !== item.id)]);
+            addToast(`${existing ? 'UPDATED' : 'IMPORTED'} ${novel.chapters.length} CHAPTERS.`, 'success');
+        } catch (err) {
+            console.error("EPUB import failed", err);
+            addToast("IMPORT FAILED. INVALID EPUB.", 'error');
+        }
+    }
+  };
 
-      if (!silent) addToast(`DOWNLOADING CHAPTER ${chapter.chapterNumber}...`, 'loading');
+  const handleExportEpub = async (novel: LibraryItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    addToast("PACKAGING EPUB...", 'loading');
+    try {
+        const blob = await exportEpub(novel);
+        const filename = `${novel.title.replace(/[\\/:*?"<>|]+/g, '').trim() || novel.id}.epub`;
+        downloadBlob(blob, filename);
+        addToast("EPUB EXPORTED.", 'success');
+    } catch (err) {
+        console.error("EPUB export failed", err);
+        addToast(err instanceof Error && err.message === "No downloaded chapters to export." ? "NO DOWNLOADED CHAPTERS." : "EXPORT FAILED.", 'error');
+    }
+  };
 
+  const handleCreateBackup = async () => {
+    addToast("ARCHIVING DATABASE...", 'loading');
+    try {
+        const blob = await createBackup();
+        downloadBlob(blob, `ranobe-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+        addToast("BACKUP CREATED.", 'success');
+    } catch (err) {
+        console.error("Backup failed", err);
+        addToast("BACKUP FAILED.", 'error');
+    }
+  };
+
+  const handleSelectBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        const backup = await readBackup(file);
+        setPendingRestore({ backup, conflicts: findRestoreConflicts(backup, library) });
+    } catch (err) {
+        console.error("Backup rejected", err);
+        addToast(`RESTORE REJECTED: ${(err instanceof Error && err.message || 'INVALID FILE').toUpperCase()}`, 'error');
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode, conflictPolicy?: ConflictPolicy) => {
+    if (!pendingRestore) return;
+    const { backup } = pendingRestore;
+    setPendingRestore(null);
+    addToast("RESTORING DATABASE...", 'loading');
+    try {
+        const restored = await restoreBackup(backup, mode, conflictPolicy);
+        setLibrary(restored);
+        if (mode === 'replace') {
+            await Promise.all([reloadSettings(), loadAiConfig(), loadAiBackend()]);
+            setAiBackend(getAiBackendId());
+        }
+        if (backup.featuredCache && mode === 'replace') setFeaturedNovels(backup.featuredCache);
+        addToast(`RESTORE COMPLETE. ${restored.length} ENTRIES.`, 'success');
+    } catch (err) {
+        console.error("Restore failed", err);
+        addToast("RESTORE FAILED. NO CHANGES MADE.", 'error');
+    }
+  };
+
+  const handleQueueDownload = async (novel: LibraryItem, upTo?: number) => {
+    setPendingDownload(null);
+    const chapters = upTo === undefined ? novel.chapters : novel.chapters.filter(c => c.chapterNumber <= upTo);
+    try {
+        const added = await enqueueDownload(novel, chapters);
+        addToast(added > 0 ? `${added} CHAPTERS QUEUED.` : "ALREADY DOWNLOADED.", added > 0 ? 'info' : 'success');
+    } catch (err) {
+        console.error("Queueing downloads failed", err);
+        addToast("QUEUE FAILED.", 'error');
+    }
+  };
+
+  // Whether the next batch of chapter titles can be fetched for a novel right now
+  const canExtendChapters = (novel: LibraryItem) => {
+    const provider = getProviderForNovel(novel);
+    return !!provider.getMoreChapters && mayHaveMoreChapters(novel) && (isOnline || !provider.requiresNetwork);
+  };
+
+  // Fetches the next batch of chapters into the library; resolves to the updated entry
+  const extendChapterList = (novel: LibraryItem): Promise<LibraryItem> => {
+    const pending = chapterFetchesRef.current.get(novel.id);
+    if (pending) return pending;
+    const request = getProviderForNovel(novel).getMoreChapters!(novel)
+      .then(batch => {
+        setLibrary(prev => prev.map(n => n.id === novel.id ? appendChapters(n, batch) : n));
+        return appendChapters(novel, batch);
+      })
+      .finally(() => chapterFetchesRef.current.delete(novel.id));
+    chapterFetchesRef.current.set(novel.id, request);
+    return request;
+  };
+
+  // Looks for new chapters of every ongoing novel. Automatic checks (`quiet`) skip providers that
+  // only allow checks on request, and only speak up when they find some.
+  const handleCheckUpdates = async (quiet = false) => {
+      if (isCheckingUpdates) return;
+      const novels = library.filter(n => canCheckForUpdates(n, isOnline, quiet));
+      if (novels.length === 0) {
+          if (!quiet) addToast("NO ONGOING NOVELS TO CHECK.", 'info');
+          return;
+      }
+
+      setIsCheckingUpdates(true);
       try {
-          const content = await downloadChapterContent(novel.title, chapter.chapterNumber, chapter.title);
-          try {
-              localStorage.setItem(key, content);
-              if (!silent) addToast("DOWNLOAD COMPLETE.", 'success');
-              return true;
-          } catch(e) {
-              addToast("STORAGE FULL. CLEAR CACHE.", 'error');
-              return false;
+          const { updates, failures } = await checkForUpdates(novels);
+          const found = new Map(updates.map(u => [u.novelId, u.chapters]));
+          setLibrary(prev => prev.map(n => found.has(n.id) ? applyUpdate(n, found.get(n.id)!) : n));
+
+          const total = updates.reduce((sum, u) => sum + u.chapters.length, 0);
+          if (total > 0) addToast(`${total} NEW CHAPTERS IN ${updates.length} ${updates.length === 1 ? 'NOVEL' : 'NOVELS'}.`, 'success');
+          else if (failures.length > 0) { if (!quiet) addToast(...aiErrorToast(failures[0], "UPDATE CHECK FAILED.", openKeySettings, () => handleCheckUpdates())); }
+          else if (!quiet) addToast("LIBRARY UP TO DATE.", 'info');
+
+          if (autoDownloadUpdates) {
+              for (const update of updates) {
+                  const novel = novels.find(n => n.id === update.novelId)!;
+                  await enqueueDownload(applyUpdate(novel, update.chapters), update.chapters);
+              }
           }
-      } catch (e) {
-          console.error("Download failed", e);
-          if (!silent) addToast("DOWNLOAD FAILED.", 'error');
-          return false;
+      } catch (err) {
+          console.error("Update check failed", err);
+          if (!quiet) addToast("UPDATE CHECK FAILED.", 'error');
+      } finally {
+          setIsCheckingUpdates(false);
       }
   };
+  checkUpdatesRef.current = handleCheckUpdates;
+
+  const handleToggleAutoDownload = () => {
+      const enabled = !autoDownloadUpdates;
+      setAutoDownloadUpdates(enabled);
+      saveSetting(AUTO_DOWNLOAD_UPDATES, enabled).catch(e => console.error("Failed to save setting", e));
+  };
+
+  const handleOpenSearchHit = (novel: LibraryItem, chapterNumber: number, hit: ChapterSearchHit) => {
+    const chapter = novel.chapters.find(c => c.chapterNumber === chapterNumber);
+    if (!chapter) return;
+    setSearchFocus({ novelId: novel.id, chapterNumber, paragraph: hit.paragraph, ranges: hit.ranges });
+    openChapter(novel, chapter.id);
+  };
 
   // The Master Reader Opener
-  const handleOpenReader = async (novelId: string, chapterId?: string) => {
-    const novel = library.find(n => n.id === novelId);
+  const handleOpenReader = (novelId: string, chapterId?: string) => {
+    setSearchFocus(null);
+    return openChapter(library.find(n => n.id === novelId), chapterId);
+  };
+
+  // Takes the entry itself so one that was just extended can be opened before the library re-renders
+  const openChapter = async (novel: LibraryItem | undefined, chapterId?: string) => {
     if (!novel || !novel.chapters || novel.chapters.length === 0) {
         addToast("DATA CORRUPTED OR EMPTY.", 'error');
         return;
@@ -210,40 +530,83 @@ function App() {
     // Provide haptic feedback
     if (navigator.vibrate) navigator.vibrate(10);
 
-    const contentKey = `novel_content_${novel.id}_ch${targetChapter.chapterNumber}`;
-    let content = localStorage.getItem(contentKey);
+    // Leaving a chapter that is still being generated discards it
+    stopStreaming();
+
+    const showChapter = (text: string) => {
+      // Update last read state (on the stored entry, which may have gained chapters meanwhile)
+      setLibrary(prev => {
+        const current = prev.find(n => n.id === novel.id) || novel;
+        return [{ ...markChapterSeen(current, targetChapter.id), lastReadChapterId: targetChapter.id }, ...prev.filter(n => n.id !== novel.id)];
+      });
+      
+      setActiveNovelId(novel.id);
+      setActiveChapterId(targetChapter.id);
+      setActiveChapterContent(text);
+      setView('reader');
+    };
+
+    // Fetch more chapter titles in the background as the reader nears the end of the list
+    if (isNearListEnd(novel, targetChapter) && canExtendChapters(novel)) {
+        extendChapterList(novel).catch(e => console.error("Chapter list update failed", e));
+    }
+
+    let content = await getChapterContent(novel.id, targetChapter.chapterNumber);
 
     if (!content) {
         // Content missing, try to download
-        if (isOnline) {
-             setIsReaderLoading(true);
-             const success = await handleDownloadChapter(novel, targetChapter, false);
-             setIsReaderLoading(false);
-             
-             if (success) {
-                 content = localStorage.getItem(contentKey);
-             } else {
-                 return; // Stop if download failed
-             }
-        } else {
+        if (!isOnline && getProviderForNovel(novel).requiresNetwork) {
             addToast("OFFLINE. CHAPTER MISSING.", 'error');
             return;
         }
-    }
 
-    if (content) {
-      // Update last read state
-      const updatedNovel = { ...novel, lastReadChapterId: targetChapter.id };
-      setLibrary(prev => [updatedNovel, ...prev.filter(n => n.id !== novel.id)]);
-      
-      setActiveNovelId(novel.id);
-      setActiveChapterId(targetChapter.id);
-      setActiveChapterContent(content);
-      setView('reader');
+        if (getProviderForNovel(novel).streamChapterContent) {
+            // Open the Reader right away and fill it in as the text arrives
+            const controller = new AbortController();
+            streamRef.current = controller;
+            setIsGenerating(true);
+            showChapter('');
+            try {
+                const text = await streamChapter(novel, targetChapter, partial => {
+                    if (!controller.signal.aborted) setActiveChapterContent(partial);
+                }, controller.signal);
+                if (!controller.signal.aborted) setActiveChapterContent(text);
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                console.error("Streaming failed", err);
+                addToast(...downloadErrorToast(err, openKeySettings, () => handleOpenReader(novel.id, chapterId)));
+                setView('library');
+            } finally {
+                if (streamRef.current === controller) {
+                    streamRef.current = null;
+                    setIsGenerating(false);
+                }
+            }
+            return;
+        }
+
+        setLoadingChapter({ novelId: novel.id, chapterNumber: targetChapter.chapterNumber });
+        try {
+            await requestChapter(novel, targetChapter);
+            content = await getChapterContent(novel.id, targetChapter.chapterNumber);
+        } catch (err) {
+            addToast(...downloadErrorToast(err, openKeySettings, () => handleOpenReader(novel.id, chapterId)));
+            return; // Stop if download failed
+        } finally {
+            setLoadingChapter(null);
+        }
     }
+
+    if (content) showChapter(content);
+  };
+
+  const stopStreaming = () => {
+      streamRef.current?.abort();
+      streamRef.current = null;
+      setIsGenerating(false);
   };
 
-  const handleNextChapter = () => {
+  const handleNextChapter = async () => {
       const currentNovel = library.find(n => n.id === activeNovelId);
       if (!currentNovel || !activeChapterId) return;
 
@@ -252,9 +615,68 @@ function App() {
       if (idx !== -1 && idx < currentNovel.chapters.length - 1) {
           const nextChapter = currentNovel.chapters[idx + 1];
           handleOpenReader(currentNovel.id, nextChapter.id);
-      } else {
+          return;
+      }
+      if (idx === -1 || !mayHaveMoreChapters(currentNovel) || !getProviderForNovel(currentNovel).getMoreChapters) {
           addToast("END OF RECORD REACHED.", 'info');
+          return;
       }
+      if (!canExtendChapters(currentNovel)) {
+          addToast("OFFLINE. CHAPTER MISSING.", 'error');
+          return;
+      }
+
+      // At the end of the known list: fetch the next batch, then continue into it
+      addToast("FETCHING MORE CHAPTERS...", 'loading');
+      try {
+          const extended = await extendChapterList(currentNovel);
+          const nextChapter = extended.chapters[idx + 1];
+          if (nextChapter) openChapter(extended, nextChapter.id);
+          else addToast("END OF RECORD REACHED.", 'info');
+      } catch (err) {
+          console.error("Chapter list update failed", err);
+          addToast(...aiErrorToast(err, "CHAPTER LIST UPDATE FAILED.", openKeySettings, () => handleNextChapter()));
+      }
+  };
+
+  // Background download of the chapters after the one being read
+  const handleReadAhead = (count: number, storageBudgetMb: number) => {
+      const currentNovel = library.find(n => n.id === activeNovelId);
+      const currentChapter = currentNovel?.chapters.find(c => c.id === activeChapterId);
+      if (!currentNovel || !currentChapter) return;
+      if (!isOnline && getProviderForNovel(currentNovel).requiresNetwork) return;
+      prefetchChapters(currentNovel, currentChapter, count, storageBudgetMb)
+          .catch(e => console.error("Read-ahead failed", e));
+  };
+
+  // Leaves whatever is open (including the Reader) for the API key settings
+  const openKeySettings = () => {
+      stopStreaming();
+      setShowKeySetup(false);
+      setView('settings');
+  };
+
+  const handleApiKeyChange = (configured: boolean) => {
+      setHasKey(configured);
+      if (!configured) {
+          addToast("API KEY REMOVED.", 'info');
+          return;
+      }
+      setShowKeySetup(false);
+      addToast("API KEY VERIFIED.", 'success');
+      retryDownloadsFailedWith("API_KEY_MISSING");
+  };
+
+  const handleSkipKeySetup = () => {
+      setShowKeySetup(false);
+      saveSetting(KEY_SETUP_DISMISSED, true).catch(e => console.error("Failed to save setting", e));
+  };
+
+  const handleCloseReader = () => {
+      stopStreaming();
+      cancelPrefetch();
+      setSearchFocus(null);
+      setView('library');
   };
 
   const handlePrevChapter = () => {
@@ -271,29 +693,51 @@ function App() {
       }
   };
 
-  const deleteFromLibrary = (id: string, e: React.MouseEvent) => {
+  const deleteFromLibrary = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if(window.confirm("PURGE DATA FOR THIS ENTRY?")) {
-        const novel = library.find(n => n.id === id);
-        if (novel) {
-            novel.chapters.forEach(ch => {
-                localStorage.removeItem(`novel_content_${id}_ch${ch.chapterNumber}`);
-                localStorage.removeItem(`scroll_${id}_ch${ch.chapterNumber}`);
-                localStorage.removeItem(`img_${id}_ch${ch.chapterNumber}`);
-            });
+        // Cancel first so chapters still downloading aren't stored after the data is gone
+        cancelDownload(id);
+        try {
+            await deleteNovelData(id);
+        } catch (err) {
+            console.error(err);
+            addToast("PURGE FAILED.", 'error');
+            return;
         }
         setLibrary(prev => prev.filter(n => n.id !== id));
+        clearNovelSettings(id);
         addToast("ENTRY PURGED.", 'success');
     }
   };
 
+  // Keeps one entry of a duplicate group and folds the others (chapters, progress, stored data) into it
+  const handleMergeDuplicates = async (group: LibraryItem[]) => {
+    const target = pickMergeTarget(group);
+    const others = group.filter(n => n.id !== target.id);
+    others.forEach(n => cancelDownload(n.id));
+    try {
+        for (const other of others) await moveNovelData(other.id, target.id);
+    } catch (err) {
+        console.error("Merge failed", err);
+        addToast("MERGE FAILED.", 'error');
+        return;
+    }
+    const merged = mergeLibraryItems(target, others);
+    setLibrary(prev => prev.filter(n => !others.some(o => o.id === n.id)).map(n => n.id === target.id ? merged : n));
+    others.forEach(n => clearNovelSettings(n.id));
+    if (duplicateGroups.length <= 1) setShowDuplicates(false);
+    addToast(`MERGED ${group.length} ENTRIES.`, 'success');
+  };
+
   const activeNovel = library.find(n => n.id === activeNovelId);
   const activeChapter = activeNovel?.chapters.find(c => c.id === activeChapterId);
+  const loadingTask = loadingChapter && downloadJobs.find(j => j.novelId === loadingChapter.novelId)?.tasks.find(t => t.chapterNumber === loadingChapter.chapterNumber);
 
   // Reusable Novel Card Component with Error Handling
   const NovelCard = ({ novel, actionLabel }: { novel: Novel, actionLabel?: string }) => {
-       const inLibrary = library.some(lib => lib.id === novel.id);
-       const isDownloading = activeDownloads.has(novel.id);
+       const inLibrary = !!findDuplicate(library, novel);
+       const isSyncing = syncingNovels.has(novel.id);
        const [imgSrc, setImgSrc] = useState(novel.coverUrl);
        const [imgError, setImgError] = useState(false);
        
@@ -329,10 +773,10 @@ function App() {
                 </div>
                 <button 
                     onClick={() => handleAddToLibrary(novel)}
-                    disabled={inLibrary || isDownloading}
+                    disabled={inLibrary || isSyncing}
                     className={`self-start mt-2 px-4 py-2 rounded-lg text-[10px] font-bold flex items-center gap-2 font-tech tracking-widest transition-all ${inLibrary ? 'text-green-400 bg-green-500/10 border border-green-500/30 cursor-default' : 'bg-blue-600 text-white shadow-lg shadow-blue-900/50 hover:bg-blue-500 active:scale-95'}`}
                 >
-                    {isDownloading ? 'DOWNLOADING...' : inLibrary ? 'INSTALLED' : actionLabel || 'INSTALL'}
+                    {isSyncing ? 'SYNCING...' : inLibrary ? 'INSTALLED' : actionLabel || 'INSTALL'}
                 </button>
               </div>
             </div>
@@ -349,10 +793,14 @@ function App() {
             novel={activeNovel}
             chapter={activeChapter}
             content={activeChapterContent} 
-            onClose={() => setView('library')}
+            onClose={handleCloseReader}
             onNextChapter={handleNextChapter}
             onPrevChapter={handlePrevChapter}
             onSelectChapter={(ch) => handleOpenReader(activeNovel.id, ch.id)}
+            onReadAhead={handleReadAhead}
+            isGenerating={isGenerating}
+            searchFocus={searchFocus}
+            onAiError={(err, retry) => addToast(...aiErrorToast(err, "IMAGE GENERATION FAILED.", openKeySettings, retry))}
         />
       </>
     );
@@ -363,15 +811,122 @@ function App() {
       <ToastContainer toasts={toasts} />
       
       {/* Global Loading Overlay */}
-      {isReaderLoading && (
+      {loadingChapter && (
           <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center animate-fade-in">
               <div className="flex flex-col items-center gap-4">
                   <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin shadow-[0_0_20px_rgba(59,130,246,0.5)]" />
-                  <p className="font-tech text-blue-400 text-sm tracking-[0.2em] animate-pulse">DOWNLOADING DATA...</p>
+                  <p className="font-tech text-blue-400 text-sm tracking-[0.2em] animate-pulse">
+                      {loadingTask?.status === 'retrying' ? `RETRYING (${loadingTask.attempts}/${MAX_DOWNLOAD_ATTEMPTS})...` : loadingTask?.status === 'queued' ? `QUEUED CH ${loadingChapter.chapterNumber}...` : 'DOWNLOADING DATA...'}
+                  </p>
+              </div>
+          </div>
+      )}
+
+      {/* Download Range Dialog */}
+      {pendingDownload && (
+          <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+              <div className="w-full max-w-sm bg-[#0f172a] border border-blue-500/30 rounded-2xl p-5 shadow-2xl space-y-4">
+                  <div>
+                      <h3 className="font-tech font-bold text-sm tracking-wide text-white">DOWNLOAD CHAPTERS</h3>
+                      <p className="text-[10px] text-gray-400 mt-2 leading-relaxed">{pendingDownload.title} · {pendingDownload.chapters.length} chapters</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                      <span className="text-[10px] font-bold font-tech tracking-widest text-gray-400">CH 1 –</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={pendingDownload.chapters.length}
+                        value={downloadUpTo}
+                        onChange={(e) => setDownloadUpTo(Math.max(1, Number(e.target.value) || 1))}
+                        className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-tech text-white outline-none focus:border-blue-500"
+                      />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                      <button onClick={() => handleQueueDownload(pendingDownload, downloadUpTo)} className="py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 active:scale-95 transition-all">DOWNLOAD 1–{downloadUpTo}</button>
+                      <button onClick={() => handleQueueDownload(pendingDownload)} className="py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 active:scale-95 transition-all">DOWNLOAD ALL</button>
+                      <button onClick={() => setPendingDownload(null)} className="py-2 text-[10px] font-bold font-tech tracking-widest text-gray-500 hover:text-white transition-colors">CANCEL</button>
+                  </div>
               </div>
           </div>
       )}
       
+      {/* First-run API Key Setup */}
+      {showKeySetup && (
+          <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+              <div className="w-full max-w-sm bg-[#0f172a] border border-blue-500/30 rounded-2xl p-5 shadow-2xl space-y-4">
+                  <div>
+                      <h3 className="font-tech font-bold text-sm tracking-wide text-white">WELCOME TO RANOBE</h3>
+                      <p className="text-[10px] text-gray-400 mt-2 leading-relaxed">
+                          Search and chapter generation run on Google Gemini with your own API key. Add one to get started,
+                          or skip to read imported EPUBs only. You can change it any time under Settings.
+                      </p>
+                  </div>
+                  <ApiKeySettings hasKey={hasKey} onChange={handleApiKeyChange} />
+                  <button onClick={handleSkipKeySetup} className="w-full py-2 text-[10px] font-bold font-tech tracking-widest text-gray-500 hover:text-white transition-colors">SKIP FOR NOW</button>
+              </div>
+          </div>
+      )}
+
+      {/* Restore Dialog */}
+      {pendingRestore && (
+          <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+              <div className="w-full max-w-sm bg-[#0f172a] border border-blue-500/30 rounded-2xl p-5 shadow-2xl space-y-4">
+                  <div>
+                      <h3 className="font-tech font-bold text-sm tracking-wide text-white">RESTORE BACKUP</h3>
+                      <p className="text-[10px] text-gray-400 mt-2 leading-relaxed">
+                          {pendingRestore.backup.snapshot.novels.length} novels, {pendingRestore.backup.snapshot.chapters.length} chapters
+                          {pendingRestore.backup.createdAt ? ` from ${new Date(pendingRestore.backup.createdAt).toLocaleString()}` : ''}.
+                          {pendingRestore.conflicts.length > 0 && ` ${pendingRestore.conflicts.length} already in your library.`}
+                      </p>
+                  </div>
+                  <div className="flex flex-col gap-2">
+                      {pendingRestore.conflicts.length > 0 ? (
+                          <>
+                              <button onClick={() => handleRestoreBackup('merge', 'keep-local')} className="py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 active:scale-95 transition-all">MERGE · KEEP MINE</button>
+                              <button onClick={() => handleRestoreBackup('merge', 'use-backup')} className="py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 active:scale-95 transition-all">MERGE · USE BACKUP</button>
+                          </>
+                      ) : (
+                          <button onClick={() => handleRestoreBackup('merge')} className="py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 active:scale-95 transition-all">MERGE</button>
+                      )}
+                      <button onClick={() => { if (window.confirm("REPLACE ALL LOCAL DATA WITH THIS BACKUP?")) handleRestoreBackup('replace'); }} className="py-3 bg-red-500/10 border border-red-500/30 text-red-200 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-red-500/20 active:scale-95 transition-all">REPLACE EVERYTHING</button>
+                      <button onClick={() => setPendingRestore(null)} className="py-2 text-[10px] font-bold font-tech tracking-widest text-gray-500 hover:text-white transition-colors">CANCEL</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* Duplicates Dialog */}
+      {showDuplicates && duplicateGroups.length > 0 && (
+          <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+              <div className="w-full max-w-sm max-h-[80vh] overflow-y-auto no-scrollbar bg-[#0f172a] border border-blue-500/30 rounded-2xl p-5 shadow-2xl space-y-4">
+                  <div>
+                      <h3 className="font-tech font-bold text-sm tracking-wide text-white">POSSIBLE DUPLICATES</h3>
+                      <p className="text-[10px] text-gray-400 mt-2 leading-relaxed">
+                          Merging keeps the marked entry and moves the others' chapters, reading progress and story bible into it.
+                      </p>
+                  </div>
+                  {duplicateGroups.map(group => {
+                      const target = pickMergeTarget(group);
+                      return (
+                          <div key={target.id} className="p-3 rounded-xl bg-white/5 border border-white/10 space-y-2">
+                              {group.map(n => (
+                                  <div key={n.id} className="flex items-baseline justify-between gap-2 text-[10px]">
+                                      <span className="text-white truncate">
+                                          {n.title}
+                                          {n.id === target.id && <span className="ml-1.5 text-blue-400 font-bold font-tech tracking-widest">KEEP</span>}
+                                      </span>
+                                      <span className="text-gray-500 font-mono shrink-0">{n.author} · {n.chapters.length} CH</span>
+                                  </div>
+                              ))}
+                              <button onClick={() => handleMergeDuplicates(group)} className="w-full py-2 bg-blue-600 text-white rounded-lg text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 active:scale-95 transition-all">MERGE</button>
+                          </div>
+                      );
+                  })}
+                  <button onClick={() => setShowDuplicates(false)} className="w-full py-2 text-[10px] font-bold font-tech tracking-widest text-gray-500 hover:text-white transition-colors">CLOSE</button>
+              </div>
+          </div>
+      )}
+
       {/* Background Decor */}
       <div className="absolute top-0 left-0 w-full h-96 bg-gradient-to-b from-blue-900/20 to-transparent pointer-events-none" />
       <div className="absolute -top-40 -right-40 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl pointer-events-none" />
@@ -403,11 +958,32 @@ function App() {
             <div className="space-y-8 animate-fade-in">
               
               {/* My Library Section */}
-              {library.length > 0 && (
-                <div className="space-y-4">
-                    <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">My Library</h2>
+              <div className="space-y-4">
+                  <div className="flex justify-between items-end border-b border-white/10 pb-2">
+                    <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech">My Library</h2>
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => handleCheckUpdates()} disabled={isCheckingUpdates} className="flex items-center gap-1.5 text-[9px] font-bold font-tech tracking-widest text-gray-400 hover:text-blue-400 disabled:opacity-50 transition-colors">
+                            <RefreshIcon className={`w-3 h-3 ${isCheckingUpdates ? 'animate-spin' : ''}`} />
+                            {isCheckingUpdates ? 'CHECKING...' : 'CHECK UPDATES'}
+                        </button>
+                        <button onClick={() => epubInputRef.current?.click()} className="flex items-center gap-1.5 text-[9px] font-bold font-tech tracking-widest text-gray-400 hover:text-blue-400 transition-colors">
+                            <DownloadIcon className="w-3 h-3" />
+                            IMPORT EPUB
+                        </button>
+                    </div>
+                    <input ref={epubInputRef} type="file" accept=".epub,application/epub+zip" multiple className="hidden" onChange={handleImportEpub} />
+                  </div>
+                  {duplicateGroups.length > 0 && (
+                    <button onClick={() => setShowDuplicates(true)} className="w-full flex items-center justify-between px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/40 text-yellow-200 text-[10px] font-bold font-tech tracking-widest hover:bg-yellow-500/20 transition-colors">
+                        <span>{duplicateGroups.length} POSSIBLE {duplicateGroups.length === 1 ? 'DUPLICATE' : 'DUPLICATES'}</span>
+                        <span>REVIEW</span>
+                    </button>
+                  )}
+                  {library.length > 0 && (
                     <div className="grid grid-cols-3 gap-4">
-                      {library.map(novel => (
+                      {library.map(novel => {
+                        const job = downloadJobs.find(j => j.novelId === novel.id);
+                        return (
                         <div key={novel.id} onClick={() => handleOpenReader(novel.id, novel.lastReadChapterId)} className="group relative flex flex-col cursor-pointer active:scale-95 transition-transform duration-300">
                           <div className="aspect-[2/3] w-full rounded-xl overflow-hidden shadow-lg shadow-black/50 relative bg-gray-800 border border-white/5 group-hover:border-blue-500/50 transition-colors">
                              <img 
@@ -420,7 +996,10 @@ function App() {
                              />
                              <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-transparent to-transparent opacity-80" />
                              
-                             <div className="absolute top-2 right-2">
+                             <div className="absolute top-2 right-2 flex items-center gap-1.5">
+                                 {!!novel.newChapterIds?.length && (
+                                     <span className="px-1.5 py-0.5 rounded-md bg-blue-600 text-white text-[8px] font-bold font-tech tracking-widest shadow-[0_0_8px_rgba(59,130,246,0.6)]" title="New chapters">{novel.newChapterIds.length} NEW</span>
+                                 )}
                                  {novel.status === 'Ongoing' ? (
                                      <div className="w-2 h-2 rounded-full bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.8)] animate-pulse" />
                                  ) : (
@@ -428,17 +1007,32 @@ function App() {
                                  )}
                              </div>
     
-                             <button onClick={(e) => deleteFromLibrary(novel.id, e)} className="absolute bottom-2 right-2 bg-red-500/20 backdrop-blur text-red-200 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500 hover:text-white border border-red-500/30">
+                             <button onClick={(e) => { e.stopPropagation(); setDownloadUpTo(Math.min(10, novel.chapters.length || 1)); setPendingDownload(novel); }} className="absolute top-2 left-2 bg-blue-500/20 backdrop-blur text-blue-200 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-blue-500 hover:text-white border border-blue-500/30" title="Download chapters">
+                                 <DownloadIcon className="w-3 h-3" />
+                             </button>
+
+                             {job && <DownloadProgressBar job={job} className="absolute bottom-0 left-0 right-0 rounded-none" />}
+
+                             <button onClick={(e) => handleExportEpub(novel, e)} className="absolute bottom-2 left-2 bg-blue-500/20 backdrop-blur text-blue-200 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-blue-500 hover:text-white border border-blue-500/30" title="Export as EPUB">
+                                 <ExportIcon className="w-3 h-3" />
+                             </button>
+
+                             <button onClick={(e) => deleteFromLibrary(novel.id, e)} className="absolute bottom-2 right-2 bg-red-500/20 backdrop-blur text-red-200 p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500 hover:text-white border border-red-500/30" title="Delete from library">
                                  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                              </button>
                           </div>
                           <h3 className="font-bold text-[10px] mt-2 leading-tight text-blue-100 uppercase tracking-wide truncate group-hover:text-white transition-colors">{novel.title}</h3>
                           <p className="text-[9px] text-gray-500 truncate font-mono">CH {novel.lastReadChapterId ? novel.chapters.find(c => c.id === novel.lastReadChapterId)?.chapterNumber : 0} / {novel.totalChapters}</p>
                         </div>
-                      ))}
+                        );
+                      })}
                     </div>
-                </div>
-              )}
+                  )}
+              </div>
+
+              <DownloadQueue />
+
+              <ReadingStats library={library} />
 
               {/* Recommendations Section */}
               <div className="space-y-4">
@@ -462,6 +1056,47 @@ function App() {
                       </div>
                   )}
               </div>
+
+              {/* Backup Section */}
+              <div className="space-y-4">
+                  <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Data Archive</h2>
+                  <div className="flex gap-3">
+                      <button onClick={handleCreateBackup} className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 transition-colors active:scale-95">
+                          CREATE BACKUP
+                      </button>
+                      <button onClick={() => backupInputRef.current?.click()} className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 transition-colors active:scale-95">
+                          RESTORE
+                      </button>
+                      <input ref={backupInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleSelectBackup} />
+                  </div>
+              </div>
+            </div>
+          )}
+
+          {/* SETTINGS */}
+          {view === 'settings' && (
+            <div className="space-y-8 animate-fade-in">
+              <div className="space-y-4">
+                  <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Gemini API Key</h2>
+                  <ApiKeySettings hasKey={hasKey} onChange={handleApiKeyChange} />
+              </div>
+              <div className="space-y-4">
+                  <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Models & Prompts</h2>
+                  <AiConfigEditor onNotify={addToast} onExport={downloadBlob} />
+              </div>
+              <div className="space-y-4">
+                  <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">AI Backend</h2>
+                  <AiBackendSettings onChange={setAiBackend} onNotify={addToast} onExport={downloadBlob} />
+              </div>
+              <div className="space-y-4">
+                  <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Library Updates</h2>
+                  <label className="flex items-center justify-between gap-4 cursor-pointer">
+                      <span className="text-[10px] text-gray-400 leading-relaxed">Download the new chapters an update check finds. Checks run from the library and when the connection comes back; AI-generated novels are only checked from the library.</span>
+                      <div className={`w-10 h-5 shrink-0 rounded-full relative transition-colors ${autoDownloadUpdates ? 'bg-blue-600' : 'bg-gray-700'}`} onClick={handleToggleAutoDownload}>
+                          <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${autoDownloadUpdates ? 'translate-x-5' : 'translate-x-0'}`} />
+                      </div>
+                  </label>
+              </div>
             </div>
           )}
 
@@ -474,7 +1109,7 @@ function App() {
                       type="text" 
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
-                      placeholder="ENTER KEYWORDS..." 
+                      placeholder={searchScope === 'chapters' ? 'WORDS OR "A PHRASE"...' : 'ENTER KEYWORDS...'}
                       className="relative w-full pl-12 pr-24 py-4 bg-[#0f172a]/90 backdrop-blur-xl border border-white/10 rounded-2xl focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none text-sm font-medium text-white font-tech placeholder-gray-600 shadow-2xl transition-all"
                     />
                     <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 text-blue-500 w-5 h-5" />
@@ -483,11 +1118,41 @@ function App() {
                     </button>
                   </form>
 
-                  <div className="space-y-3">
-                    {searchResults.map(novel => (
-                       <NovelCard key={novel.id} novel={novel} />
+                  <div className="flex gap-2">
+                    {(['catalog', 'chapters'] as const).map(scope => (
+                      <button
+                        key={scope}
+                        onClick={() => setSearchScope(scope)}
+                        className={`flex-1 py-2 rounded-xl text-[10px] font-bold font-tech tracking-widest border transition-all ${searchScope === scope ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+                      >
+                        {scope === 'catalog' ? 'CATALOG' : 'MY CHAPTERS'}
+                      </button>
                     ))}
                   </div>
+
+                  {searchScope === 'catalog' && getSearchProviders().length > 1 && (
+                    <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                      {getSearchProviders().map(p => (
+                        <button
+                          key={p.id}
+                          onClick={() => setSearchProviderId(p.id)}
+                          className={`px-3 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest border transition-all ${searchProviderId === p.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                        >
+                          {p.name.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {searchScope === 'catalog' ? (
+                    <div className="space-y-3">
+                      {searchResults.map(novel => (
+                         <NovelCard key={novel.id} novel={novel} />
+                      ))}
+                    </div>
+                  ) : (
+                    <ChapterSearchResults results={chapterResults} onOpen={handleOpenSearchHit} />
+                  )}
             </div>
           )}
         </div>
@@ -501,11 +1166,19 @@ function App() {
             <span className="text-[9px] font-bold font-tech tracking-widest">LIBRARY</span>
             {view === 'library' && <div className="w-1 h-1 rounded-full bg-blue-500 absolute bottom-4 animate-glow" />}
           </button>
-          <button onClick={() => isOnline ? setView('search') : addToast("OFFLINE MODE.", 'error')} className={`flex flex-col items-center gap-1.5 w-full h-full justify-center transition-all duration-300 ${view === 'search' ? 'text-blue-400 scale-105' : 'text-gray-500 hover:text-gray-300'}`}>
+          <button onClick={() => { if (!isOnline && getSearchProviders().every(p => p.requiresNetwork)) setSearchScope('chapters'); setView('search'); }} className={`flex flex-col items-center gap-1.5 w-full h-full justify-center transition-all duration-300 ${view === 'search' ? 'text-blue-400 scale-105' : 'text-gray-500 hover:text-gray-300'}`}>
             <SearchIcon className={`w-5 h-5 ${view === 'search' ? 'drop-shadow-[0_0_8px_rgba(59,130,246,0.8)]' : ''}`} />
             <span className="text-[9px] font-bold font-tech tracking-widest">DISCOVER</span>
             {view === 'search' && <div className="w-1 h-1 rounded-full bg-blue-500 absolute bottom-4 animate-glow" />}
           </button>
+          <button onClick={() => setView('settings')} className={`flex flex-col items-center gap-1.5 w-full h-full justify-center transition-all duration-300 ${view === 'settings' ? 'text-blue-400 scale-105' : 'text-gray-500 hover:text-gray-300'}`}>
+            <SettingsIcon className={`w-5 h-5 ${view === 'settings' ? 'drop-shadow-[0_0_8px_rgba(59,130,246,0.8)]' : ''}`} />
+            <span className="flex items-center gap-1 text-[9px] font-bold font-tech tracking-widest">
+              SETTINGS
+              {isKeyMissing && <span className="w-1.5 h-1.5 rounded-full bg-red-500" title="No API key" />}
+            </span>
+            {view === 'settings' && <div className="w-1 h-1 rounded-full bg-blue-500 absolute bottom-4 animate-glow" />}
+          </button>
         </div>
       </nav>
     </div>
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { ToastMessage } from '../types';
+import { AiBackendId, getAiBackendId, getAiFixture, isAiBackendFixed, isRecording, setAiBackendId, setAiFixture, startRecording, stopRecording } from '../services/aiBackend';
+import { countFixtureEntries, parseAiFixture, serializeAiFixture } from '../services/aiFixtures';
+
+interface AiBackendSettingsProps {
+  onChange: (id: AiBackendId) => void;
+  onNotify: (message: string, type: ToastMessage['type']) => void;
+  onExport: (blob: Blob, filename: string) => void;
+}
+
+const BACKENDS: { id: AiBackendId; label: string }[] = [
+  { id: 'gemini', label: 'GEMINI' },
+  { id: 'mock', label: 'MOCK (OFFLINE)' },
+];
+
+const secondaryButton = "flex-1 py-2.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 active:scale-95 transition-all";
+
+/**
+ * Switch between Gemini and the offline mock backend, load fixtures for the mock and
+ * record new ones from Gemini.
+ */
+const AiBackendSettings = ({ onChange, onNotify, onExport }: AiBackendSettingsProps) => {
+  const [backend, setBackend] = useState<AiBackendId>(getAiBackendId);
+  const [fixtureSize, setFixtureSize] = useState<number | null>(() => {
+    const fixture = getAiFixture();
+    return fixture ? countFixtureEntries(fixture) : null;
+  });
+  const [recording, setRecording] = useState(isRecording);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const isFixed = isAiBackendFixed();
+
+  const handleSelect = async (id: AiBackendId) => {
+    if (id === backend) return;
+    try {
+      await setAiBackendId(id);
+      setBackend(id);
+      onChange(id);
+    } catch (e) {
+      console.error("Failed to switch AI backend", e);
+      onNotify("SWITCH FAILED.", 'error');
+    }
+  };
+
+  const handleLoadFixture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const fixture = parseAiFixture(await file.text());
+      await setAiFixture(fixture);
+      setFixtureSize(countFixtureEntries(fixture));
+      onNotify("FIXTURE LOADED.", 'success');
+    } catch (err) {
+      onNotify(`FIXTURE REJECTED: ${(err instanceof Error && err.message || 'INVALID FILE').toUpperCase()}`, 'error');
+    }
+  };
+
+  const handleClearFixture = async () => {
+    try {
+      await setAiFixture(null);
+      setFixtureSize(null);
+    } catch (e) {
+      console.error("Failed to clear fixture", e);
+      onNotify("CLEAR FAILED.", 'error');
+    }
+  };
+
+  const handleToggleRecording = () => {
+    if (!recording) {
+      startRecording();
+      setRecording(true);
+      onNotify("RECORDING AI RESPONSES.", 'info');
+      return;
+    }
+    const fixture = stopRecording();
+    setRecording(false);
+    const size = countFixtureEntries(fixture);
+    if (size === 0) {
+      onNotify("NOTHING RECORDED.", 'info');
+      return;
+    }
+    onExport(serializeAiFixture(fixture), `ranobe-fixture-${new Date().toISOString().slice(0, 10)}.json`);
+    onNotify(`${size} RESPONSES EXPORTED.`, 'success');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex bg-black/20 rounded-xl p-1 gap-1">
+        {BACKENDS.map(b => (
+          <button
+            key={b.id}
+            onClick={() => handleSelect(b.id)}
+            disabled={isFixed}
+            className={`flex-1 py-2 text-[10px] font-bold font-tech tracking-widest rounded-lg transition-all disabled:cursor-not-allowed ${backend === b.id ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5 text-gray-400'}`}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+      {isFixed && <p className="text-[10px] text-gray-400">Set for this build by VITE_AI_BACKEND.</p>}
+
+      {backend === 'mock' ? (
+        <>
+          <p className="text-[10px] text-gray-400 leading-relaxed">
+            Generated locally and always the same for the same input. No key or network needed.
+            {fixtureSize === null ? ' No fixture loaded.' : ` Fixture loaded: ${fixtureSize} recorded responses, generated data for the rest.`}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => fixtureInputRef.current?.click()} className={secondaryButton}>LOAD FIXTURE</button>
+            {fixtureSize !== null && <button onClick={handleClearFixture} className={secondaryButton}>CLEAR FIXTURE</button>}
+            <input ref={fixtureInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLoadFixture} />
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-[10px] text-gray-400 leading-relaxed">
+            Record Gemini responses while you use the app, then replay them offline with the mock backend.
+          </p>
+          <button onClick={handleToggleRecording} className={`w-full py-2.5 rounded-xl text-[10px] font-bold font-tech tracking-widest active:scale-95 transition-all ${recording ? 'bg-red-500/20 border border-red-500/50 text-red-100 animate-pulse' : 'bg-white/5 border border-white/10 hover:bg-white/10'}`}>
+            {recording ? 'STOP & EXPORT FIXTURE' : 'RECORD FIXTURE'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AiBackendSettings;
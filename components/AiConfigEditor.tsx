@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { AiConfig, AiTask, AiTaskConfig, ToastMessage } from '../types';
+import { AI_TASKS, AI_TASK_INFO, DEFAULT_AI_CONFIG, exportAiConfig, getAiConfig, parseAiConfigPreset, saveAiConfig } from '../services/aiConfigService';
+
+interface AiConfigEditorProps {
+  onNotify: (message: string, type: ToastMessage['type']) => void;
+  onExport: (blob: Blob, filename: string) => void;
+}
+
+// Offered in the model field; any model id the API accepts can be typed in
+const SUGGESTED_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro', 'gemini-2.5-flash-image'];
+
+const inputClass = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs text-white outline-none focus:border-blue-500 transition-colors";
+const labelClass = "block text-[9px] font-bold font-tech tracking-widest text-gray-400 mb-1.5";
+
+/**
+ * Edit the model, temperature, prompt template and target length of each Gemini task,
+ * and share them as JSON presets.
+ */
+const AiConfigEditor = ({ onNotify, onExport }: AiConfigEditorProps) => {
+  const [draft, setDraft] = useState<AiConfig>(getAiConfig);
+  const [task, setTask] = useState<AiTask>('chapterText');
+  const [isSaving, setIsSaving] = useState(false);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+
+  const info = AI_TASK_INFO[task];
+  const config = draft[task];
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(getAiConfig());
+
+  const updateTask = (patch: Partial<AiTaskConfig>) => setDraft(prev => ({ ...prev, [task]: { ...prev[task], ...patch } }));
+
+  const save = async (next: AiConfig, message: string) => {
+    setIsSaving(true);
+    try {
+      await saveAiConfig(next);
+      setDraft(getAiConfig());
+      onNotify(message, 'success');
+    } catch (e) {
+      console.error("Failed to save AI config", e);
+      onNotify("SAVE FAILED.", 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await save(parseAiConfigPreset(await file.text(), draft), "PRESET IMPORTED.");
+    } catch (err) {
+      onNotify(`IMPORT REJECTED: ${(err instanceof Error && err.message || 'INVALID FILE').toUpperCase()}`, 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {AI_TASKS.map(t => (
+          <button
+            key={t}
+            onClick={() => setTask(t)}
+            className={`px-3 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest border whitespace-nowrap transition-all ${task === t ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+          >
+            {AI_TASK_INFO[t].label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <label className={labelClass}>MODEL</label>
+          <input value={config.model} list="ai-models" spellCheck={false} onChange={(e) => updateTask({ model: e.target.value })} className={`${inputClass} font-mono`} />
+          <datalist id="ai-models">
+            {SUGGESTED_MODELS.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+        <div className={info.lengthUnit ? '' : 'col-span-2'}>
+          <label className={labelClass}>TEMPERATURE · {config.temperature.toFixed(1)}</label>
+          <input type="range" min={0} max={2} step={0.1} value={config.temperature} onChange={(e) => updateTask({ temperature: Number(e.target.value) })} className="w-full accent-blue-500" />
+        </div>
+        {info.lengthUnit && (
+          <div>
+            <label className={labelClass}>TARGET LENGTH · {info.lengthUnit.toUpperCase()}</label>
+            <input type="number" min={1} value={config.targetLength} onChange={(e) => updateTask({ targetLength: Math.max(1, Math.round(Number(e.target.value)) || 1) })} className={`${inputClass} font-tech`} />
+          </div>
+        )}
+        <div className="col-span-2">
+          <label className={labelClass}>PROMPT TEMPLATE</label>
+          <textarea value={config.prompt} rows={10} spellCheck={false} onChange={(e) => updateTask({ prompt: e.target.value })} className={`${inputClass} font-mono leading-relaxed resize-y`} />
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {info.variables.map(v => (
+              <code key={v} className="px-1.5 py-0.5 rounded bg-blue-500/10 border border-blue-500/20 text-[9px] text-blue-300">{`{{${v}}}`}</code>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button onClick={() => setDraft(prev => ({ ...prev, [task]: DEFAULT_AI_CONFIG[task] }))} className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 active:scale-95 transition-all">
+          RESET TASK
+        </button>
+        <button onClick={() => save(draft, "AI CONFIG SAVED.")} disabled={!isDirty || isSaving} className="flex-1 py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 disabled:opacity-50 active:scale-95 transition-all">
+          {isSaving ? 'SAVING...' : 'SAVE'}
+        </button>
+      </div>
+      <div className="flex gap-3">
+        <button onClick={() => onExport(exportAiConfig(draft), 'ranobe-ai-config.json')} className="flex-1 py-2 text-[10px] font-bold font-tech tracking-widest text-gray-400 hover:text-white transition-colors">
+          EXPORT PRESET
+        </button>
+        <button onClick={() => presetInputRef.current?.click()} className="flex-1 py-2 text-[10px] font-bold font-tech tracking-widest text-gray-400 hover:text-white transition-colors">
+          IMPORT PRESET
+        </button>
+        <input ref={presetInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default AiConfigEditor;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Annotation, LibraryItem, ReaderSettings } from '../types';
+import { HIGHLIGHT_COLORS, sortAnnotations } from '../services/annotationService';
+import { HIGHLIGHT_CLASSES } from './MarkdownContent';
+
+interface AnnotationsPanelProps {
+  novel: LibraryItem;
+  annotations: Annotation[];
+  currentChapter: number;
+  theme: ReaderSettings['theme'];
+  onJump: (annotation: Annotation) => void;
+  onEdit: (annotation: Annotation) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet listing a novel's bookmarks, highlights and notes by chapter.
+ */
+const AnnotationsPanel = ({ novel, annotations, currentChapter, theme, onJump, onEdit, onClose }: AnnotationsPanelProps) => {
+  const isFuture = theme === 'future';
+  const sorted = sortAnnotations(annotations);
+  const chapterTitle = (chapterNumber: number) => novel.chapters.find(c => c.chapterNumber === chapterNumber)?.title;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="flex-1" onClick={onClose} />
+      <div className={`h-[70vh] rounded-t-3xl shadow-2xl overflow-hidden flex flex-col ${isFuture ? 'bg-[#0f172a] text-white border-t border-blue-500/20' : 'bg-white text-gray-900'}`}>
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="font-bold font-tech tracking-wide text-sm">ANNOTATIONS</h3>
+          <button onClick={onClose} className="p-2 opacity-50 hover:opacity-100">✕</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 no-scrollbar">
+          {sorted.length === 0 ? (
+            <div className="p-4 text-center opacity-50 font-mono text-xs">SELECT TEXT TO HIGHLIGHT, OR BOOKMARK A PARAGRAPH FROM THE TOP BAR</div>
+          ) : sorted.map((annotation, i) => (
+            <React.Fragment key={annotation.id}>
+              {(i === 0 || sorted[i - 1].chapterNumber !== annotation.chapterNumber) && (
+                <div className={`px-4 pt-4 pb-2 text-[9px] font-bold font-tech tracking-widest uppercase opacity-50 ${i > 0 ? 'mt-2' : ''}`}>
+                  CH {annotation.chapterNumber}{chapterTitle(annotation.chapterNumber) ? ` · ${chapterTitle(annotation.chapterNumber)}` : ''}
+                  {annotation.chapterNumber === currentChapter && ' · CURRENT'}
+                </div>
+              )}
+              <div className={`flex items-start gap-2 p-3 rounded-xl mb-2 ${isFuture ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}>
+                <button onClick={() => onJump(annotation)} className="flex-1 min-w-0 text-left">
+                  <div className="flex items-center gap-2 mb-1">
+                    {annotation.kind === 'bookmark' ? (
+                      <span className="text-[9px] font-bold font-tech tracking-widest text-blue-400">BOOKMARK</span>
+                    ) : (
+                      <span className={`w-2.5 h-2.5 rounded-full ${HIGHLIGHT_CLASSES[annotation.color || 'yellow']}`} />
+                    )}
+                  </div>
+                  <p className="text-xs opacity-80 line-clamp-3">{annotation.text || '…'}</p>
+                  {annotation.note && <p className="text-[11px] mt-1.5 pl-2 border-l-2 border-blue-500/50 opacity-70 whitespace-pre-wrap">{annotation.note}</p>}
+                </button>
+                <button onClick={() => onEdit(annotation)} className="px-2 py-1 text-[9px] font-bold font-tech tracking-widest opacity-50 hover:opacity-100 transition-opacity shrink-0">EDIT</button>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface AnnotationEditorProps {
+  annotation: Annotation;
+  theme: ReaderSettings['theme'];
+  onSave: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for a single annotation's color and note.
+ */
+export const AnnotationEditor = ({ annotation, theme, onSave, onDelete, onClose }: AnnotationEditorProps) => {
+  const [color, setColor] = useState(annotation.color);
+  const [note, setNote] = useState(annotation.note || '');
+  const isFuture = theme === 'future';
+
+  const handleSave = () => {
+    const { note: _, ...rest } = annotation;
+    onSave({ ...rest, ...(color ? { color } : {}), ...(note.trim() ? { note: note.trim() } : {}) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-full max-w-sm rounded-2xl p-5 shadow-2xl space-y-4 border ${isFuture ? 'bg-[#0f172a] border-blue-500/30 text-white' : 'bg-white border-gray-200 text-gray-900'}`}>
+        <h3 className="font-tech font-bold text-sm tracking-wide">{annotation.kind === 'bookmark' ? 'BOOKMARK' : 'HIGHLIGHT'}</h3>
+        <p className="text-xs opacity-70 line-clamp-4">{annotation.text}</p>
+        {annotation.kind === 'highlight' && (
+          <div className="flex gap-2">
+            {HIGHLIGHT_COLORS.map(c => (
+              <button key={c} onClick={() => setColor(c)} title={c} className={`w-8 h-8 rounded-full border-2 ${HIGHLIGHT_CLASSES[c]} ${color === c ? 'border-blue-500' : 'border-transparent'}`} />
+            ))}
+          </div>
+        )}
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note..."
+          rows={4}
+          autoFocus
+          className={`w-full px-3 py-2 rounded-xl text-xs outline-none border focus:border-blue-500 transition-colors resize-none ${isFuture ? 'bg-white/5 border-white/10' : 'bg-gray-50 border-gray-200'}`}
+        />
+        <div className="flex gap-2">
+          <button onClick={() => onDelete(annotation)} className="py-3 px-4 bg-red-500/10 border border-red-500/30 text-red-400 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-red-500/20 active:scale-95 transition-all">DELETE</button>
+          <button onClick={onClose} className="flex-1 py-3 text-[10px] font-bold font-tech tracking-widest opacity-60 hover:opacity-100 transition-opacity">CANCEL</button>
+          <button onClick={handleSave} className="flex-1 py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 active:scale-95 transition-all">SAVE</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
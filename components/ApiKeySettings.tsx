@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { updateApiKey, removeApiKey } from '../services/apiKeyService';
+import { AiError } from '../services/aiErrors';
+import { CheckIcon, RefreshIcon } from './Icons';
+
+export const API_KEY_URL = 'https://aistudio.google.com/apikey';
+
+interface ApiKeySettingsProps {
+  hasKey: boolean;
+  onChange: (hasKey: boolean) => void;
+}
+
+const verifyErrorMessage = (err: unknown) => {
+  if (err instanceof AiError && err.code === 'API_KEY_MISSING') return "KEY REJECTED. CHECK IT AND TRY AGAIN.";
+  if (err instanceof AiError && err.code === 'NETWORK_ERROR') return "COULDN'T REACH GEMINI. CHECK CONNECTION.";
+  return "VERIFICATION FAILED. TRY AGAIN.";
+};
+
+/**
+ * Enter, verify and remove the user's own Gemini API key.
+ */
+const ApiKeySettings = ({ hasKey, onChange }: ApiKeySettingsProps) => {
+  const [key, setKey] = useState('');
+  const [showKey, setShowKey] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!key.trim()) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      await updateApiKey(key);
+      setKey('');
+      onChange(true);
+    } catch (err) {
+      console.error("API key verification failed", err);
+      setError(verifyErrorMessage(err));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm("REMOVE YOUR API KEY FROM THIS DEVICE?")) return;
+    try {
+      await removeApiKey();
+      onChange(false);
+    } catch (err) {
+      console.error("Failed to remove API key", err);
+      setError("REMOVE FAILED.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <div className="flex items-center gap-2 text-[10px] font-bold font-tech tracking-widest">
+        {hasKey ? (
+          <><CheckIcon className="w-3 h-3 text-green-400" /><span className="text-green-300">KEY CONFIGURED</span></>
+        ) : (
+          <span className="text-red-300">NO KEY CONFIGURED</span>
+        )}
+      </div>
+      <div className="relative">
+        <input
+          type={showKey ? 'text' : 'password'}
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder={hasKey ? 'ENTER A NEW KEY TO REPLACE IT' : 'PASTE YOUR GEMINI API KEY'}
+          autoComplete="off"
+          spellCheck={false}
+          className="w-full pl-3 pr-16 py-3 bg-white/5 border border-white/10 rounded-xl text-xs font-mono text-white outline-none focus:border-blue-500 placeholder-gray-600 transition-colors"
+        />
+        <button type="button" onClick={() => setShowKey(s => !s)} className="absolute right-2 top-1/2 -translate-y-1/2 px-2 py-1 text-[9px] font-bold font-tech tracking-widest text-gray-400 hover:text-white transition-colors">
+          {showKey ? 'HIDE' : 'SHOW'}
+        </button>
+      </div>
+      {error && <p className="text-[10px] font-bold font-tech tracking-widest text-red-300">{error}</p>}
+      <div className="flex gap-3">
+        <button type="submit" disabled={!key.trim() || isVerifying} className="flex-1 flex items-center justify-center gap-2 py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 disabled:opacity-50 active:scale-95 transition-all">
+          {isVerifying && <RefreshIcon className="w-3 h-3 animate-spin" />}
+          {isVerifying ? 'VERIFYING...' : 'SAVE & VERIFY'}
+        </button>
+        {hasKey && (
+          <button type="button" onClick={handleRemove} className="px-4 py-3 bg-red-500/10 border border-red-500/30 text-red-200 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-red-500/20 active:scale-95 transition-all">
+            REMOVE
+          </button>
+        )}
+      </div>
+      <p className="text-[10px] text-gray-400 leading-relaxed">
+        The key is stored only on this device and is never included in backups.{' '}
+        <a href={API_KEY_URL} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">Get a free key from Google AI Studio.</a>
+      </p>
+    </form>
+  );
+};
+
+export default ApiKeySettings;
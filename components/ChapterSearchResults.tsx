@@ -0,0 +1,52 @@
+import React from 'react';
+import { LibraryItem } from '../types';
+import { ChapterSearchHit, MatchRange, NovelSearchResult } from '../services/chapterSearchService';
+
+interface ChapterSearchResultsProps {
+  results: NovelSearchResult[];
+  onOpen: (novel: LibraryItem, chapterNumber: number, hit: ChapterSearchHit) => void;
+}
+
+const Snippet = ({ text, ranges }: { text: string; ranges: MatchRange[] }) => {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach((range, i) => {
+    parts.push(text.slice(at, range.start));
+    parts.push(<mark key={i} className="bg-yellow-400/30 text-yellow-100 rounded-sm">{text.slice(range.start, range.end)}</mark>);
+    at = range.end;
+  });
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
+/**
+ * Matches from the downloaded chapters, grouped by novel and chapter. Tapping a match opens the
+ * Reader at that paragraph.
+ */
+const ChapterSearchResults = ({ results, onOpen }: ChapterSearchResultsProps) => (
+  <div className="space-y-6">
+    {results.map(({ novel, chapters }) => (
+      <div key={novel.id} className="space-y-2">
+        <h3 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">
+          {novel.title} · {chapters.length} {chapters.length === 1 ? 'CHAPTER' : 'CHAPTERS'}
+        </h3>
+        {chapters.map(chapter => (
+          <div key={chapter.chapterNumber} className="p-3 rounded-xl bg-white/5 border border-white/10 space-y-1">
+            <div className="text-[9px] font-bold font-tech tracking-widest text-gray-500 uppercase">CH {chapter.chapterNumber} · {chapter.title}</div>
+            {chapter.hits.map(hit => (
+              <button
+                key={hit.paragraph}
+                onClick={() => onOpen(novel, chapter.chapterNumber, hit)}
+                className="block w-full text-left text-xs text-gray-300 leading-relaxed p-2 -mx-2 rounded-lg hover:bg-white/5 transition-colors"
+              >
+                <Snippet text={hit.snippet} ranges={hit.snippetRanges} />
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export default ChapterSearchResults;
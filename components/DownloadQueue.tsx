@@ -0,0 +1,90 @@
+import React, { useSyncExternalStore } from 'react';
+import { ChapterDownloadStatus, NovelDownloadJob } from '../types';
+import { getDownloadJobs, subscribeDownloads, pauseDownload, resumeDownload, cancelDownload, retryFailedDownloads, MAX_DOWNLOAD_ATTEMPTS } from '../services/downloadManager';
+import { RefreshIcon } from './Icons';
+
+/** Live view of the download queue. */
+export const useDownloadQueue = (): NovelDownloadJob[] =>
+  useSyncExternalStore(subscribeDownloads, getDownloadJobs);
+
+const STATUS_STYLES: Record<ChapterDownloadStatus, string> = {
+  queued: 'bg-white/5 border-white/10 text-gray-400',
+  downloading: 'bg-blue-500/20 border-blue-500/50 text-blue-200',
+  retrying: 'bg-yellow-500/10 border-yellow-500/40 text-yellow-200',
+  failed: 'bg-red-500/10 border-red-500/40 text-red-200',
+};
+
+/** Progress of a job as a 0..1 fraction. */
+export const jobProgress = (job: NovelDownloadJob) => job.total > 0 ? job.completed / job.total : 0;
+
+export const DownloadProgressBar = ({ job, className = '' }: { job: NovelDownloadJob, className?: string }) => (
+  <div className={`h-1 bg-white/10 rounded-full overflow-hidden ${className}`}>
+    <div
+      className={`h-full transition-all duration-500 ${job.paused ? 'bg-gray-500' : job.tasks.some(t => t.status === 'failed') ? 'bg-red-500' : 'bg-blue-500 shadow-[0_0_6px_rgba(59,130,246,0.8)]'}`}
+      style={{ width: `${Math.round(jobProgress(job) * 100)}%` }}
+    />
+  </div>
+);
+
+const JobRow = ({ job }: { job: NovelDownloadJob }) => {
+  const failed = job.tasks.filter(t => t.status === 'failed').length;
+  const running = job.tasks.filter(t => t.status === 'downloading').length;
+  const status = job.paused ? 'PAUSED' : running > 0 ? `${running} ACTIVE` : failed === job.tasks.length ? 'STALLED' : 'WAITING';
+
+  return (
+    <div className="bg-white/5 p-3 rounded-2xl border border-white/5 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="font-bold text-xs text-white truncate font-tech tracking-wide">{job.title}</h3>
+          <p className="text-[9px] text-gray-500 font-mono mt-0.5">
+            {job.completed} / {job.total} · {status}{failed > 0 && ` · ${failed} FAILED`}
+          </p>
+        </div>
+        <div className="flex gap-1.5 shrink-0">
+          {failed > 0 && (
+            <button onClick={() => retryFailedDownloads(job.novelId)} className="px-2.5 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest bg-white/5 border border-white/10 hover:bg-white/10 transition-colors">RETRY</button>
+          )}
+          <button onClick={() => job.paused ? resumeDownload(job.novelId) : pauseDownload(job.novelId)} className="px-2.5 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest bg-white/5 border border-white/10 hover:bg-white/10 transition-colors">
+            {job.paused ? 'RESUME' : 'PAUSE'}
+          </button>
+          <button onClick={() => cancelDownload(job.novelId)} className="px-2.5 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest bg-red-500/10 border border-red-500/30 text-red-200 hover:bg-red-500/20 transition-colors">CANCEL</button>
+        </div>
+      </div>
+
+      <DownloadProgressBar job={job} />
+
+      <div className="flex flex-wrap gap-1.5 max-h-20 overflow-y-auto no-scrollbar">
+        {job.tasks.map(task => (
+          <span
+            key={task.chapterNumber}
+            title={task.error ? `${task.error} (attempt ${task.attempts}/${MAX_DOWNLOAD_ATTEMPTS})` : undefined}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[9px] font-mono ${STATUS_STYLES[task.status]}`}
+          >
+            {task.status === 'downloading' && <RefreshIcon className="w-2.5 h-2.5 animate-spin" />}
+            CH {task.chapterNumber}
+            {task.status === 'retrying' && ` · RETRY ${task.attempts}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Per-novel download progress with pause / resume / cancel controls.
+ */
+const DownloadQueue = () => {
+  const jobs = useDownloadQueue();
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Downloads</h2>
+      <div className="space-y-3">
+        {jobs.map(job => <JobRow key={job.novelId} job={job} />)}
+      </div>
+    </div>
+  );
+};
+
+export default DownloadQueue;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { HighlightColor, ReaderSettings } from '../types';
+import { InlineNode, MarkdownDocument } from '../services/markdownService';
+import { HighlightRange } from '../services/annotationService';
+
+interface MarkdownContentProps {
+  document: MarkdownDocument;
+  paragraphSpacing: number;
+  theme: ReaderSettings['theme'];
+  highlights?: HighlightRange[];
+  bookmarks?: Set<number>; // bookmarked paragraphs
+  onHighlightClick?: (id: string) => void;
+  activeParagraph?: number | null; // paragraph being read aloud
+}
+
+export const HIGHLIGHT_CLASSES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300/40',
+  green: 'bg-green-300/40',
+  blue: 'bg-sky-300/40',
+  pink: 'bg-pink-300/40',
+};
+
+// Highlights of the block being rendered, and how far into its text rendering has got
+interface HighlightCursor {
+  ranges: HighlightRange[];
+  offset: number;
+  onClick?: (id: string) => void;
+}
+
+// Splits a text node at highlight boundaries; later highlights are drawn over earlier ones
+const renderText = (text: string, key: string, cursor?: HighlightCursor): React.ReactNode => {
+  const from = cursor?.offset ?? 0;
+  const to = from + text.length;
+  const ranges = cursor?.ranges.filter(r => r.start < to && r.end > from) || [];
+  if (cursor) cursor.offset = to;
+  if (ranges.length === 0) return <React.Fragment key={key}>{text}</React.Fragment>;
+
+  const cuts = [...new Set([from, to, ...ranges.flatMap(r => [r.start, r.end]).filter(n => n > from && n < to)])].sort((a, b) => a - b);
+  return (
+    <React.Fragment key={key}>
+      {cuts.slice(0, -1).map((start, i) => {
+        const segment = text.slice(start - from, cuts[i + 1] - from);
+        const range = ranges.filter(r => r.start <= start && r.end > start).pop();
+        if (!range) return <React.Fragment key={i}>{segment}</React.Fragment>;
+        return (
+          <mark
+            key={i}
+            data-annotation={range.id}
+            onClick={(e) => { e.stopPropagation(); cursor!.onClick?.(range.id); }}
+            className={`${HIGHLIGHT_CLASSES[range.color]} text-inherit rounded-sm cursor-pointer`}
+          >{segment}</mark>
+        );
+      })}
+    </React.Fragment>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], keyPrefix = '', cursor?: HighlightCursor): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    const key = `${keyPrefix}${i}`;
+    switch (node.type) {
+      case 'text': return renderText(node.text, key, cursor);
+      case 'em': return <em key={key} className="italic">{renderInline(node.children, `${key}-`, cursor)}</em>;
+      case 'strong': return <strong key={key} className="font-bold">{renderInline(node.children, `${key}-`, cursor)}</strong>;
+      case 'footnoteRef':
+        return (
+          <sup key={key} id={`fnref-${node.number}`}>
+            <a href={`#fn-${node.number}`} onClick={(e) => e.stopPropagation()} className="text-blue-400 px-0.5 no-underline">{node.number}</a>
+          </sup>
+        );
+    }
+  });
+
+/**
+ * Renders parsed chapter Markdown. Each block carries `data-paragraph` (its source line),
+ * which the Reader uses to anchor reading positions and annotations.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ document, paragraphSpacing, theme, highlights = [], bookmarks, onHighlightClick, activeParagraph }) => {
+  const spacing = { marginBottom: `${paragraphSpacing}em` };
+  const isFuture = theme === 'future';
+
+  return (
+    <>
+      {document.blocks.map(block => {
+        const blockHighlights = highlights.filter(h => h.paragraph === block.line);
+        const cursor = blockHighlights.length > 0 ? { ranges: blockHighlights, offset: 0, onClick: onHighlightClick } : undefined;
+        // The negative margin keeps the text where it was next to the bookmark bar
+        const bookmarked = bookmarks?.has(block.line) ? ` border-l-2 border-blue-500 pl-2.5 -ml-3` : '';
+        const active = block.line === activeParagraph ? ' bg-blue-500/10 rounded-md transition-colors' : '';
+        switch (block.type) {
+          case 'heading':
+            return <h2 key={block.line} data-paragraph={block.line} style={spacing} className={`text-xl font-bold mt-8 opacity-90${bookmarked}${active}`}>{renderInline(block.children, '', cursor)}</h2>;
+          case 'sceneBreak':
+            return (
+              <div key={block.line} data-paragraph={block.line} style={spacing} className="flex justify-center items-center gap-4 py-4 opacity-40 select-none" aria-hidden="true">
+                <span className="w-1.5 h-1.5 rotate-45 bg-current" />
+                <span className="w-1.5 h-1.5 rotate-45 bg-current" />
+                <span className="w-1.5 h-1.5 rotate-45 bg-current" />
+              </div>
+            );
+          case 'system':
+            return (
+              <p key={block.line} data-paragraph={block.line} style={spacing} className={`text-center font-tech text-sm tracking-wider px-4 py-2 rounded-lg border mx-auto w-fit max-w-full ${isFuture ? 'border-blue-500/40 bg-blue-500/10 text-blue-200 shadow-[0_0_10px_rgba(59,130,246,0.2)]' : 'border-current/20 bg-black/5 opacity-90'}${bookmarks?.has(block.line) ? ' ring-1 ring-blue-500' : ''}${active}`}>
+                {renderInline(block.children, '', cursor)}
+              </p>
+            );
+          case 'blockquote':
+            return (
+              <blockquote key={block.line} data-paragraph={block.line} style={spacing} className={`pl-4 border-l-2 italic opacity-80 ${bookmarks?.has(block.line) ? 'border-blue-500' : isFuture ? 'border-blue-500/50' : 'border-current/30'}${active}`}>
+                {block.children.map((para, i) => {
+                  // The line break between a quote's paragraphs counts in its offsets (see annotationService.blockText)
+                  if (cursor && i > 0) cursor.offset += 1;
+                  return <p key={i} className={i > 0 ? 'mt-2' : ''}>{renderInline(para, `${i}-`, cursor)}</p>;
+                })}
+              </blockquote>
+            );
+          case 'paragraph':
+          default:
+            return <p key={block.line} data-paragraph={block.line} style={spacing} className={`opacity-80${bookmarked}${active}`}>{renderInline(block.children, '', cursor)}</p>;
+        }
+      })}
+
+      {document.footnotes.length > 0 && (
+        <aside className="mt-12 pt-6 border-t border-white/10 text-[0.8em] opacity-70">
+          <ol className="space-y-2">
+            {document.footnotes.map(fn => (
+              <li key={fn.id} id={`fn-${fn.number}`}>
+                <a href={`#fnref-${fn.number}`} onClick={(e) => e.stopPropagation()} className="text-blue-400 mr-2">{fn.number}.</a>
+                {renderInline(fn.children)}
+              </li>
+            ))}
+          </ol>
+        </aside>
+      )}
+    </>
+  );
+};
+
+export default MarkdownContent;
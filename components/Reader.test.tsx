@@ -0,0 +1,259 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import Reader from './Reader';
+import { SettingsProvider } from './SettingsContext';
+import { LibraryItem, SearchFocus } from '../types';
+import { getAnnotations, getReadingPosition, saveAnnotation, saveReadingPosition } from '../services/storageService';
+import { createHighlight } from '../services/annotationService';
+import { DEFAULT_READER_SETTINGS, saveReaderSettings } from '../services/settingsService';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const CONTENT = ['First paragraph.', '', 'Second paragraph.', '', 'Third paragraph.', '', 'Fourth paragraph.'].join('\n');
+
+const chapters = [1, 2, 3].map(n => makeChapter('Test Novel', n));
+
+let novelCount = 0;
+// Fresh id per test so saved positions don't leak between tests
+const newNovel = () => makeNovel(`novel_${++novelCount}`, { title: 'Test Novel', chapters });
+
+const renderReader = (novel: LibraryItem = newNovel(), extra: { searchFocus?: SearchFocus; content?: string } = {}) => {
+  const props = {
+    ...extra,
+    novel,
+    chapter: chapters[1],
+    content: extra.content ?? CONTENT,
+    onClose: vi.fn(),
+    onNextChapter: vi.fn(),
+    onPrevChapter: vi.fn(),
+    onSelectChapter: vi.fn(),
+  };
+  const result = render(<SettingsProvider><Reader {...props} /></SettingsProvider>);
+  return { ...result, props, root: result.container.firstElementChild as HTMLElement };
+};
+
+const swipe = (el: HTMLElement, from: number, to: number) => {
+  fireEvent.touchStart(el, { targetTouches: [{ clientX: from }] });
+  fireEvent.touchMove(el, { targetTouches: [{ clientX: to }] });
+  fireEvent.touchEnd(el, { changedTouches: [{ clientX: to }] });
+};
+
+beforeEach(async () => {
+  await saveReaderSettings({ defaults: DEFAULT_READER_SETTINGS, overrides: {} });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('chapter navigation', () => {
+  it('moves between chapters with the end-of-chapter buttons', () => {
+    const { props } = renderReader();
+
+    fireEvent.click(screen.getByText('NEXT CHAPTER'));
+    expect(props.onNextChapter).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByText('PREVIOUS'));
+    expect(props.onPrevChapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides the buttons while the chapter is still generating', () => {
+    render(
+      <SettingsProvider>
+        <Reader novel={newNovel()} chapter={chapters[0]} content="Partial" isGenerating onClose={vi.fn()} onNextChapter={vi.fn()} onPrevChapter={vi.fn()} onSelectChapter={vi.fn()} />
+      </SettingsProvider>
+    );
+    expect(screen.queryByText('NEXT CHAPTER')).toBeNull();
+    expect(screen.getByText('Receiving Transmission...')).toBeTruthy();
+  });
+});
+
+describe('swipe gestures', () => {
+  it('changes chapter on a swipe longer than 100px in scroll mode', () => {
+    const { props, root } = renderReader();
+
+    swipe(root, 300, 150);
+    expect(props.onNextChapter).toHaveBeenCalledTimes(1);
+
+    swipe(root, 150, 300);
+    expect(props.onPrevChapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores short swipes in scroll mode', () => {
+    const { props, root } = renderReader();
+
+    swipe(root, 300, 220);
+    swipe(root, 220, 300);
+
+    expect(props.onNextChapter).not.toHaveBeenCalled();
+    expect(props.onPrevChapter).not.toHaveBeenCalled();
+  });
+
+  it('turns pages on a 50px swipe in paged mode, crossing chapters at the edges', async () => {
+    await saveReaderSettings({ defaults: { ...DEFAULT_READER_SETTINGS, readingMode: 'paged' }, overrides: {} });
+    const { props, root } = renderReader();
+    await screen.findByText('1 / 1');
+
+    swipe(root, 300, 260);
+    expect(props.onNextChapter).not.toHaveBeenCalled();
+
+    swipe(root, 300, 240);
+    expect(props.onNextChapter).toHaveBeenCalledTimes(1);
+
+    swipe(root, 240, 300);
+    expect(props.onPrevChapter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('scroll position', () => {
+  // jsdom has no layout: stack paragraph blocks 100px apart, 50px tall, relative to the scroll offset
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+      const paragraph = this.dataset.paragraph;
+      const top = paragraph === undefined ? 0 : Number(paragraph) * 100 - window.scrollY;
+      return { top, bottom: top + 50, height: 50, left: 0, right: 0, width: 0, x: 0, y: top, toJSON: () => ({}) } as DOMRect;
+    });
+  });
+
+  afterEach(() => {
+    window.scrollY = 0;
+  });
+
+  it('restores the saved paragraph anchor below the HUD', async () => {
+    const novel = newNovel();
+    await saveReadingPosition(novel.id, chapters[1].chapterNumber, { paragraph: 4, fraction: 0.5 });
+
+    renderReader(novel);
+
+    // Paragraph 4 starts at 400px; half of its 50px, minus the 80px anchor line
+    await waitFor(() => expect(window.scrollTo).toHaveBeenLastCalledWith(0, 345));
+  });
+
+  it('opens a search result at its paragraph instead of the saved position, marking the match', async () => {
+    const novel = newNovel();
+    await saveReadingPosition(novel.id, chapters[1].chapterNumber, { paragraph: 6, fraction: 0 });
+
+    const { container } = renderReader(novel, {
+      searchFocus: { novelId: novel.id, chapterNumber: chapters[1].chapterNumber, paragraph: 4, ranges: [{ start: 6, end: 15 }] },
+    });
+
+    // Paragraph 4 starts at 400px, minus the 80px anchor line
+    await waitFor(() => expect(window.scrollTo).toHaveBeenLastCalledWith(0, 320));
+    const mark = container.querySelector('mark[data-annotation="search"]');
+    expect(mark?.textContent).toBe('paragraph');
+    expect(mark?.closest('[data-paragraph]')?.getAttribute('data-paragraph')).toBe('4');
+  });
+
+  it('saves the paragraph at the anchor line when leaving the chapter', async () => {
+    const novel = newNovel();
+    const { unmount } = renderReader(novel);
+
+    window.scrollY = 345;
+    fireEvent.scroll(window);
+    unmount();
+
+    await waitFor(async () => {
+      expect(await getReadingPosition(novel.id, chapters[1].chapterNumber)).toMatchObject({ paragraph: 4, fraction: 0.5 });
+    });
+  });
+});
+
+describe('annotations', () => {
+  it('shows stored highlights and opens them for editing', async () => {
+    const novel = newNovel();
+    await saveAnnotation(createHighlight(novel.id, chapters[1].chapterNumber, { paragraph: 2, offset: 7 }, { paragraph: 2, offset: 16 }, 'paragraph', 'green'));
+
+    const { container } = renderReader(novel);
+
+    const mark = await waitFor(() => {
+      const el = container.querySelector('mark');
+      expect(el?.textContent).toBe('paragraph');
+      return el!;
+    });
+    expect(mark.closest('[data-paragraph]')?.textContent).toBe('Second paragraph.');
+
+    fireEvent.click(mark);
+    expect(screen.getByText('HIGHLIGHT')).toBeTruthy();
+  });
+
+  it('highlights the selected text', async () => {
+    const novel = newNovel();
+    const { container } = renderReader(novel);
+
+    const text = container.querySelector('[data-paragraph="4"]')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(text, 6);
+    range.setEnd(text, 15);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    fireEvent(document, new Event('selectionchange'));
+
+    fireEvent.click(await screen.findByTitle('Highlight pink'));
+
+    await waitFor(async () => {
+      expect(await getAnnotations(novel.id)).toMatchObject([
+        { kind: 'highlight', chapterNumber: 2, start: { paragraph: 4, offset: 6 }, end: { paragraph: 4, offset: 15 }, text: 'paragraph', color: 'pink' },
+      ]);
+    });
+    expect(container.querySelector('mark')?.textContent).toBe('paragraph');
+  });
+
+  it('counts the line break between the paragraphs of a quote', async () => {
+    const novel = newNovel();
+    const { container } = renderReader(novel, { content: '> Run.\n> Now.' });
+
+    const text = container.querySelectorAll('blockquote p')[1].firstChild!;
+    const range = document.createRange();
+    range.setStart(text, 0);
+    range.setEnd(text, 4);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    fireEvent(document, new Event('selectionchange'));
+
+    fireEvent.click(await screen.findByTitle('Highlight blue'));
+
+    await waitFor(async () => {
+      expect(await getAnnotations(novel.id)).toMatchObject([
+        { kind: 'highlight', start: { paragraph: 0, offset: 5 }, end: { paragraph: 0, offset: 9 }, text: 'Now.' },
+      ]);
+    });
+    expect(container.querySelector('mark')?.textContent).toBe('Now.');
+  });
+});
+
+describe('narration', () => {
+  let spoken: { text: string; onend: (() => void) | null }[] = [];
+
+  beforeEach(() => {
+    spoken = [];
+    vi.stubGlobal('SpeechSynthesisUtterance', class { onend = null; constructor(public text: string) {} });
+    vi.stubGlobal('speechSynthesis', { speak: (u: typeof spoken[number]) => spoken.push(u), cancel: vi.fn(), getVoices: () => [] });
+  });
+
+  afterEach(() => {
+    cleanup(); // the Reader stops narrating when it unmounts
+    vi.unstubAllGlobals();
+  });
+
+  it('reads paragraph by paragraph, marking the current one, then moves on to the next chapter', async () => {
+    const { container, props } = renderReader();
+
+    fireEvent.click(screen.getByTitle('Read aloud'));
+    expect(spoken.map(u => u.text)).toEqual(['First paragraph.']);
+    expect(container.querySelector('[data-paragraph="0"]')?.className).toContain('bg-blue-500/10');
+
+    act(() => spoken[0].onend!());
+    expect(container.querySelector('[data-paragraph="2"]')?.className).toContain('bg-blue-500/10');
+    expect(container.querySelector('[data-paragraph="0"]')?.className).not.toContain('bg-blue-500/10');
+
+    fireEvent.click(screen.getByTitle('Pause narration'));
+    expect(screen.getByTitle('Resume narration')).toBeTruthy();
+    fireEvent.click(screen.getByTitle('Resume narration'));
+    expect(spoken.map(u => u.text)).toEqual(['First paragraph.', 'Second paragraph.', 'Second paragraph.']);
+
+    act(() => spoken[2].onend!());
+    act(() => spoken[3].onend!());
+    act(() => spoken[4].onend!());
+    expect(props.onNextChapter).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { LibraryItem, ReaderSettings, ChapterMetadata } from '../types';
-import { ChevronLeftIcon, SettingsIcon, RefreshIcon, CheckIcon } from './Icons';
-import { generateChapterImage } from '../services/geminiService';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { LibraryItem, ChapterMetadata, Annotation, HighlightColor, TextAnchor, SearchFocus } from '../types';
+import { ChevronLeftIcon, SettingsIcon, RefreshIcon, CheckIcon, BookmarkIcon, PlayIcon, PauseIcon } from './Icons';
+import { getAiBackend } from '../services/aiBackend';
+import { useReaderSettings } from './SettingsContext';
+import MarkdownContent, { HIGHLIGHT_CLASSES } from './MarkdownContent';
+import StoryBibleEditor from './StoryBibleEditor';
+import AnnotationsPanel, { AnnotationEditor } from './AnnotationsPanel';
+import { useDownloadQueue } from './DownloadQueue';
+import { subscribeDownloadEvents } from '../services/downloadManager';
+import { parseMarkdown } from '../services/markdownService';
+import { groupByVolume } from '../services/chapterListService';
+import { countWords, createSessionTracker, SessionTracker } from '../services/readingStatsService';
+import { HIGHLIGHT_COLORS, HighlightRange, createBookmark, createHighlight, highlightRanges } from '../services/annotationService';
+import { Narrator, createNarrator, getNarrationVoices, isNarrationSupported, narrationQueue, setNarrationMediaSession } from '../services/narrationService';
+import { getChapterImage, saveChapterImage, getReadingPosition, saveReadingPosition, saveReadingSession, getAnnotations, saveAnnotation, deleteAnnotation, getDownloadedChapterNumbers, dataUrlToBlob, ParagraphAnchor } from '../services/storageService';
 
 interface ReaderProps {
   novel: LibraryItem;
@@ -11,20 +23,60 @@ interface ReaderProps {
   onNextChapter: () => void;
   onPrevChapter: () => void;
   onSelectChapter: (ch: ChapterMetadata) => void;
+  onReadAhead?: (count: number, storageBudgetMb: number) => void; // reader passed the prefetch threshold
+  isGenerating?: boolean; // content is still streaming in
+  onAiError?: (err: unknown, retry: () => void) => void; // surfaces failed AI requests (e.g. scene images)
+  searchFocus?: SearchFocus | null; // full-text search match to open the chapter at and mark
 }
 
+// Horizontal gap between CSS columns in paginated mode (hidden by the clip box)
+const PAGE_GAP = 48;
+
+// Distance from the top of the viewport (below the HUD) that scroll positions are anchored to
+const ANCHOR_LINE = 80;
+
+// Idle time before a changed reading position is written to storage
+const POSITION_SAVE_DELAY = 500;
+
+/**
+ * Annotation anchor for a DOM point (e.g. a selection end): the enclosing block and the length of
+ * the text before the point in it, footnote markers excluded and a line break between the
+ * paragraphs of a quote (see annotationService.blockText).
+ */
+const textAnchorAt = (node: Node, offset: number): TextAnchor | null => {
+  const element = (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement)?.closest<HTMLElement>('[data-paragraph]');
+  if (!element) return null;
+  const before = document.createRange();
+  before.selectNodeContents(element);
+  before.setEnd(node, offset);
+  const text = before.cloneContents();
+  text.querySelectorAll('sup').forEach(el => el.remove());
+  text.querySelectorAll('p').forEach((el, i) => { if (i > 0) el.prepend('\n'); });
+  return { paragraph: Number(element.dataset.paragraph), offset: text.textContent?.length || 0 };
+};
+
+// +/- control used by the numeric reader settings
+const SettingStepper = ({ label, value, display, min, max, step, onChange }: {
+  label: string; value: number; display: string; min: number; max: number; step: number; onChange: (value: number) => void;
+}) => (
+  <div className="mb-6">
+    <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">{label}</label>
+    <div className="flex items-center gap-4 bg-white/5 p-2 rounded-xl border border-white/10">
+      <button onClick={() => onChange(Math.max(min, +(value - step).toFixed(2)))} className="w-8 h-8 flex items-center justify-center font-bold bg-white/10 rounded-lg">-</button>
+      <span className="flex-1 text-center text-xs font-mono">{display}</span>
+      <button onClick={() => onChange(Math.min(max, +(value + step).toFixed(2)))} className="w-8 h-8 flex items-center justify-center font-bold bg-white/10 rounded-lg">+</button>
+    </div>
+  </div>
+);
+
 const Reader: React.FC<ReaderProps> = ({ 
-    novel, chapter, content, onClose, onNextChapter, onPrevChapter, onSelectChapter 
+    novel, chapter, content, onClose, onNextChapter, onPrevChapter, onSelectChapter, onReadAhead, isGenerating = false, onAiError, searchFocus
 }) => {
-  const [settings, setSettings] = useState<ReaderSettings>({
-    fontSize: 18,
-    fontFamily: 'serif',
-    theme: 'future',
-    lineHeight: 1.8,
-    autoGenerateImage: false,
-  });
+  const { settings, update: updateSettings, hasOverride, setOverride } = useReaderSettings(novel.id);
   const [showSettings, setShowSettings] = useState(false);
   const [showChapters, setShowChapters] = useState(false);
+  const [showBible, setShowBible] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(false);
   const [scrollProgress, setScrollProgress] = useState(0);
   const [controlsVisible, setControlsVisible] = useState(true);
   
@@ -32,43 +84,494 @@ const Reader: React.FC<ReaderProps> = ({
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
 
+  // Chapters available offline (for the chapter index)
+  const [downloadedChapters, setDownloadedChapters] = useState<Set<number>>(new Set());
+
   // Swipe State
   const touchStart = useRef<number | null>(null);
   const [swipeHint, setSwipeHint] = useState<'next' | 'prev' | null>(null);
 
+  // Paginated mode: pages are CSS columns
+  const isPaged = settings.readingMode === 'paged';
+  const isPagedRef = useRef(isPaged);
+  isPagedRef.current = isPaged;
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+
+  // Reading position is a paragraph index plus a fraction within it, so it survives
+  // font, size and mode changes. Writes are debounced instead of happening per scroll event.
+  const anchorRef = useRef<ParagraphAnchor>({ paragraph: 0, fraction: 0 });
+  const saveTimerRef = useRef<number | null>(null);
+  const pendingSaveRef = useRef(false);
+
+  // Read-ahead fires once per chapter when progress crosses the configured threshold
+  const readAheadRef = useRef(false);
+  const checkReadAhead = (percent: number) => {
+    if (readAheadRef.current || !onReadAhead || isGenerating || settings.prefetchChapters <= 0 || percent < settings.prefetchThreshold) return;
+    readAheadRef.current = true;
+    onReadAhead(settings.prefetchChapters, settings.prefetchStorageBudget);
+  };
+  const checkReadAheadRef = useRef(checkReadAhead);
+  checkReadAheadRef.current = checkReadAhead;
+
+  const markdown = useMemo(() => parseMarkdown(content), [content]);
+
+  // Reading history: one tracker per opened chapter, fed by scrolling and page turns
+  const sessionRef = useRef<SessionTracker | null>(null);
+  const words = useMemo(() => countWords(content), [content]);
+  const wordsRef = useRef(words);
+  wordsRef.current = words;
+
+  // Bookmarks, highlights and notes of the whole novel; the selection offers new highlights
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [editingAnnotation, setEditingAnnotation] = useState<Annotation | null>(null);
+  const [textSelection, setTextSelection] = useState<{ start: TextAnchor; end: TextAnchor; text: string } | null>(null);
+  // Paragraph to open a chapter at instead of its saved position (jump from the annotations panel)
+  const pendingJumpRef = useRef<{ chapterNumber: number; paragraph: number } | null>(null);
+  const chapterAnnotations = useMemo(() => annotations.filter(a => a.chapterNumber === chapter.chapterNumber), [annotations, chapter.chapterNumber]);
+  const highlights = useMemo(() => highlightRanges(chapterAnnotations, markdown), [chapterAnnotations, markdown]);
+  const bookmarks = useMemo(() => new Set(chapterAnnotations.filter(a => a.kind === 'bookmark').map(a => a.start.paragraph)), [chapterAnnotations]);
+
+  // A search match is jumped to once, and stays marked while its chapter is open
+  const isSearchChapter = searchFocus?.novelId === novel.id && searchFocus.chapterNumber === chapter.chapterNumber;
+  const usedSearchFocusRef = useRef<SearchFocus | null>(null);
+  const markedRanges = useMemo<HighlightRange[]>(() => isSearchChapter
+    ? [...highlights, ...searchFocus!.ranges.map(r => ({ ...r, id: 'search', paragraph: searchFocus!.paragraph, color: 'blue' as const }))]
+    : highlights, [highlights, isSearchChapter, searchFocus]);
+
+  // Narration reads the chapter aloud from the reading position and carries on into the next one
+  const [narration, setNarration] = useState<'off' | 'playing' | 'paused'>('off');
+  const [narratedParagraph, setNarratedParagraph] = useState<number | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const narratorRef = useRef<Narrator | null>(null);
+  // Chapter to start narrating from the top once it opens (narration ran into it)
+  const narrateChapterRef = useRef<number | null>(null);
+  const narrationHandlersRef = useRef({ onParagraph: (_paragraph: number) => {}, onEnd: () => {} });
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const paragraphElements = (root: ParentNode | null = document) =>
+    Array.from(root?.querySelectorAll<HTMLElement>('[data-paragraph]') || []);
+
+  // Block rendered for a paragraph index (source line); blank lines map to the block above
+  const elementForParagraph = (paragraph: number, root: ParentNode | null = document) =>
+    paragraphElements(root).filter(el => Number(el.dataset.paragraph) <= paragraph).pop() || paragraphElements(root)[0];
+
+  const flushPosition = () => {
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    if (!pendingSaveRef.current) return;
+    pendingSaveRef.current = false;
+    saveReadingPosition(novel.id, chapter.chapterNumber, anchorRef.current).catch(console.error);
+  };
+
+  const setAnchor = (anchor: ParagraphAnchor) => {
+    anchorRef.current = anchor;
+    pendingSaveRef.current = true;
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flushPosition, POSITION_SAVE_DELAY);
+  };
+
+  // --- Scroll mode anchoring ---
+
+  const anchorFromScroll = (): ParagraphAnchor => {
+    for (const el of paragraphElements()) {
+      const rect = el.getBoundingClientRect();
+      if (rect.bottom > ANCHOR_LINE) {
+        const fraction = rect.height > 0 ? Math.min(1, Math.max(0, (ANCHOR_LINE - rect.top) / rect.height)) : 0;
+        return { paragraph: Number(el.dataset.paragraph), fraction };
+      }
+    }
+    return { paragraph: 0, fraction: 0 };
+  };
+
+  const scrollToAnchor = (anchor: ParagraphAnchor) => {
+    const el = elementForParagraph(anchor.paragraph);
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    window.scrollTo(0, rect.top + window.scrollY + anchor.fraction * rect.height - ANCHOR_LINE);
+  };
+
+  // --- Paged mode anchoring ---
+
+  const pageStride = () => (columnsRef.current?.clientWidth || 0) + PAGE_GAP;
+
+  const pageOf = (el: HTMLElement) => {
+    const stride = pageStride();
+    return stride > PAGE_GAP ? Math.floor(el.offsetLeft / stride) : 0;
+  };
+
+  // First paragraph that starts on the given page (or the one running into it)
+  const anchorForPage = (target: number): ParagraphAnchor => {
+    let paragraph = 0;
+    for (const el of paragraphElements(columnsRef.current)) {
+      const elPage = pageOf(el);
+      if (elPage > target) break;
+      paragraph = Number(el.dataset.paragraph);
+      if (elPage === target) break;
+    }
+    return { paragraph, fraction: 0 };
+  };
+
+  const pageForAnchor = (anchor: ParagraphAnchor) => {
+    const el = elementForParagraph(anchor.paragraph, columnsRef.current);
+    return el ? pageOf(el) : 0;
+  };
+
+  const relayoutPages = () => {
+    const el = columnsRef.current;
+    if (!el) return;
+    const stride = pageStride();
+    const count = stride > PAGE_GAP ? Math.max(1, Math.round((el.scrollWidth + PAGE_GAP) / stride)) : 1;
+    const current = Math.min(count - 1, pageForAnchor(anchorRef.current));
+    setPageCount(count);
+    setPage(current);
+    checkReadAheadRef.current(((current + 1) / count) * 100);
+  };
+
+  // Re-apply the anchor after anything that changes the layout
+  useLayoutEffect(() => {
+    if (isPaged) {
+      relayoutPages();
+      window.addEventListener('resize', relayoutPages);
+      return () => window.removeEventListener('resize', relayoutPages);
+    }
+    scrollToAnchor(anchorRef.current);
+  }, [isPaged, content, generatedImage, settings.fontSize, settings.fontFamily, settings.lineHeight, settings.margin, settings.contentWidth, settings.paragraphSpacing, settings.textAlign]);
+
+  const switchReadingMode = (mode: 'scroll' | 'paged') => {
+    if (mode === settings.readingMode) return;
+    if (!isPaged) anchorRef.current = anchorFromScroll();
+    updateSettings({ readingMode: mode });
+  };
+
+  const turnPage = (delta: 1 | -1) => {
+    const target = page + delta;
+    if (target < 0) { onPrevChapter(); return; }
+    if (target >= pageCount) { onNextChapter(); return; }
+    setPage(target);
+    setAnchor(anchorForPage(target));
+    checkReadAhead(((target + 1) / pageCount) * 100);
+    sessionRef.current?.activity(((target + 1) / pageCount) * 100, words);
+  };
+
+  // Tap zones: left/right edges turn pages, the middle toggles the HUD
+  const handlePageTap = (e: React.MouseEvent) => {
+    if (window.getSelection()?.isCollapsed === false) return; // finishing a text selection
+    const x = e.clientX / window.innerWidth;
+    if (x < 0.3) turnPage(-1);
+    else if (x > 0.7) turnPage(1);
+    else toggleControls();
+  };
+
   useEffect(() => {
-    // Unique key for every chapter
-    const key = `scroll_${novel.id}_ch${chapter.chapterNumber}`;
-    const savedScroll = localStorage.getItem(key);
-    if (savedScroll) {
-      window.scrollTo(0, parseInt(savedScroll));
+    if (!isPaged) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest?.('input, textarea')) return;
+      if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === ' ') turnPage(1);
+      else if (e.key === 'ArrowLeft' || e.key === 'PageUp') turnPage(-1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Don't lose the last position (or the open reading session) when the tab is hidden or closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushPosition();
+      sessionRef.current?.end();
+    };
+    const handleHide = () => { if (document.visibilityState === 'hidden') handlePageHide(); };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let imageUrl: string | null = null;
+    window.scrollTo(0, 0);
+    setGeneratedImage(null);
+    anchorRef.current = { paragraph: 0, fraction: 0 };
+    readAheadRef.current = false;
+    setScrollProgress(0);
+    setPage(0);
+
+    let jump = pendingJumpRef.current?.chapterNumber === chapter.chapterNumber ? pendingJumpRef.current : null;
+    pendingJumpRef.current = null;
+    if (!jump && isSearchChapter && usedSearchFocusRef.current !== searchFocus) jump = searchFocus!;
+    usedSearchFocusRef.current = searchFocus ?? null;
+
+    // Narration only follows into the chapter it ran into; changing chapters otherwise stops it
+    setNarratedParagraph(null);
+    if (narrateChapterRef.current === chapter.chapterNumber) {
+      jump = jump || { chapterNumber: chapter.chapterNumber, paragraph: 0 };
     } else {
-      window.scrollTo(0, 0);
-    }
-    
-    // Check local storage for image
-    const savedImg = localStorage.getItem(`img_${novel.id}_ch${chapter.chapterNumber}`);
-    setGeneratedImage(savedImg);
-
-    // Auto-generate check (if at end of chapter, roughly)
-    if (!savedImg && settings.autoGenerateImage) {
-        // Logic handled in handleGenerateImage if needed, but usually user scrolls to bottom
+      narrateChapterRef.current = null;
+      narratorRef.current?.stop();
+      setNarration('off');
     }
 
+    const tracker = createSessionTracker(novel.id, chapter.chapterNumber, session => {
+      saveReadingSession(session).catch(console.error);
+    });
+    tracker.activity(0, wordsRef.current);
+    sessionRef.current = tracker;
+
+    // Restore the saved position for this chapter
+    getReadingPosition(novel.id, chapter.chapterNumber)
+      .then(saved => {
+        if (cancelled) return;
+        if (jump) {
+          // Opened from the annotations panel, a search result or by narration: go there, not to the last position
+          setAnchor({ paragraph: jump.paragraph, fraction: 0 });
+        } else if (!saved) {
+          return;
+        } else if (saved.scrollY !== undefined || saved.offset !== undefined) {
+          // One-time migration of a legacy pixel / character-offset position
+          let anchor: ParagraphAnchor = { paragraph: 0, fraction: 0 };
+          if (saved.offset !== undefined) {
+            let start = 0;
+            content.split('\n').forEach((text, i) => {
+              if (start <= saved.offset!) anchor = { paragraph: i, fraction: 0 };
+              start += text.length + 1;
+            });
+          } else if (!isPagedRef.current) {
+            window.scrollTo(0, saved.scrollY!);
+            anchor = anchorFromScroll();
+          }
+          anchorRef.current = anchor;
+          saveReadingPosition(novel.id, chapter.chapterNumber, anchor).catch(console.error);
+        } else {
+          anchorRef.current = { paragraph: saved.paragraph, fraction: saved.fraction };
+        }
+        if (isPagedRef.current) relayoutPages();
+        else scrollToAnchor(anchorRef.current);
+      })
+      .catch(console.error);
+
+    // Check the image store for a previously generated visual
+    getChapterImage(novel.id, chapter.chapterNumber)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        imageUrl = URL.createObjectURL(blob);
+        setGeneratedImage(imageUrl);
+      })
+      .catch(console.error);
+
     const handleScroll = () => {
       const position = window.scrollY;
       const total = document.body.scrollHeight - window.innerHeight;
       const progress = total > 0 ? (position / total) * 100 : 0;
       setScrollProgress(progress);
-      localStorage.setItem(key, position.toString());
+      if (!isPagedRef.current) {
+        setAnchor(anchorFromScroll());
+        checkReadAheadRef.current(progress);
+        tracker.activity(progress, wordsRef.current);
+      }
       
       // Auto-hide controls on scroll
       if (controlsVisible && position > 50) setControlsVisible(false);
     };
 
     window.addEventListener('scroll', handleScroll);
-    return () => window.removeEventListener('scroll', handleScroll);
+    return () => {
+      cancelled = true;
+      flushPosition();
+      tracker.end();
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+      window.removeEventListener('scroll', handleScroll);
+    };
   }, [novel.id, chapter.chapterNumber]);
+
+  useEffect(() => {
+    setAnnotations([]);
+    getAnnotations(novel.id).then(setAnnotations).catch(console.error);
+  }, [novel.id]);
+
+  // Offer highlighting while text in the chapter is selected
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) { setTextSelection(null); return; }
+      const range = selection.getRangeAt(0);
+      const start = textAnchorAt(range.startContainer, range.startOffset);
+      const end = textAnchorAt(range.endContainer, range.endOffset);
+      const text = selection.toString().trim();
+      setTextSelection(start && end && text ? { start, end, text } : null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const storeAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev => [...prev.filter(a => a.id !== annotation.id), annotation]);
+    saveAnnotation(annotation).catch(console.error);
+  };
+
+  const removeAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev => prev.filter(a => a.id !== annotation.id));
+    deleteAnnotation(annotation.id).catch(console.error);
+  };
+
+  const clearSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    setTextSelection(null);
+  };
+
+  const highlightSelection = (color: HighlightColor, withNote = false) => {
+    if (!textSelection) return;
+    const highlight = createHighlight(novel.id, chapter.chapterNumber, textSelection.start, textSelection.end, textSelection.text, color);
+    if (withNote) setEditingAnnotation(highlight); // stored once the note is saved
+    else storeAnnotation(highlight);
+    clearSelection();
+  };
+
+  // Bookmarks the paragraph at the reading line, or removes the bookmark already there
+  const toggleBookmark = (paragraph: number) => {
+    const existing = chapterAnnotations.find(a => a.kind === 'bookmark' && a.start.paragraph === paragraph);
+    if (existing) removeAnnotation(existing);
+    else storeAnnotation(createBookmark(novel.id, chapter.chapterNumber, paragraph, markdown));
+  };
+
+  const jumpToAnnotation = (annotation: Annotation) => {
+    setShowAnnotations(false);
+    if (annotation.chapterNumber === chapter.chapterNumber) {
+      setAnchor({ paragraph: annotation.start.paragraph, fraction: 0 });
+      if (isPaged) relayoutPages();
+      else scrollToAnchor(anchorRef.current);
+      return;
+    }
+    const target = novel.chapters.find(c => c.chapterNumber === annotation.chapterNumber);
+    if (!target) return;
+    pendingJumpRef.current = { chapterNumber: annotation.chapterNumber, paragraph: annotation.start.paragraph };
+    onSelectChapter(target);
+  };
+
+  // --- Narration ---
+
+  const chapterIndex = novel.chapters.findIndex(c => c.chapterNumber === chapter.chapterNumber);
+  const nextChapter = chapterIndex === -1 ? undefined : novel.chapters[chapterIndex + 1];
+  const prevChapter = chapterIndex > 0 ? novel.chapters[chapterIndex - 1] : undefined;
+
+  const narrator = () => {
+    if (!narratorRef.current) {
+      narratorRef.current = createNarrator(
+        () => ({ voice: settingsRef.current.narrationVoice, rate: settingsRef.current.narrationRate, pitch: settingsRef.current.narrationPitch }),
+        { onParagraph: paragraph => narrationHandlersRef.current.onParagraph(paragraph), onEnd: () => narrationHandlersRef.current.onEnd() },
+      );
+    }
+    return narratorRef.current;
+  };
+
+  narrationHandlersRef.current = {
+    onParagraph: paragraph => {
+      setNarratedParagraph(paragraph);
+      setAnchor({ paragraph, fraction: 0 });
+      if (isPaged) relayoutPages();
+      else scrollToAnchor(anchorRef.current);
+    },
+    onEnd: () => {
+      setNarratedParagraph(null);
+      if (!nextChapter) {
+        setNarration('off');
+        return;
+      }
+      narrateChapterRef.current = nextChapter.chapterNumber;
+      onNextChapter();
+    },
+  };
+
+  const startNarration = (fromParagraph: number) => {
+    if (isGenerating || markdown.blocks.length === 0) return;
+    setNarration('playing');
+    narrator().play(narrationQueue(markdown, fromParagraph));
+  };
+
+  const toggleNarration = () => {
+    if (narration === 'playing') {
+      narrator().pause();
+      setNarration('paused');
+    } else if (narration === 'paused') {
+      narrator().resume();
+      setNarration('playing');
+    } else {
+      startNarration(anchorRef.current.paragraph);
+    }
+  };
+
+  const stopNarration = () => {
+    narrateChapterRef.current = null;
+    narrator().stop();
+    setNarration('off');
+    setNarratedParagraph(null);
+  };
+
+  // Narrate a chapter narration ran into as soon as its text is in (it may still be streaming)
+  useEffect(() => {
+    if (narrateChapterRef.current !== chapter.chapterNumber || isGenerating || markdown.blocks.length === 0) return;
+    narrateChapterRef.current = null;
+    startNarration(0);
+  }, [markdown, isGenerating, chapter.chapterNumber]);
+
+  // System media controls (lock screen, notification, headset buttons) while narrating
+  useEffect(() => {
+    if (narration === 'off') {
+      setNarrationMediaSession(null);
+      return;
+    }
+    const skipTo = (target?: ChapterMetadata) => {
+      narrateChapterRef.current = target ? target.chapterNumber : null;
+      if (target) onSelectChapter(target);
+    };
+    setNarrationMediaSession({
+      title: chapter.title,
+      artist: novel.title,
+      artwork: novel.coverUrl || undefined,
+      playing: narration === 'playing',
+      controls: {
+        play: () => narration === 'paused' && toggleNarration(),
+        pause: () => narration === 'playing' && toggleNarration(),
+        stop: stopNarration,
+        next: () => skipTo(nextChapter),
+        previous: () => skipTo(prevChapter),
+      },
+    });
+  }, [narration, novel.id, chapter.chapterNumber]);
+
+  useEffect(() => () => {
+    narratorRef.current?.stop();
+    setNarrationMediaSession(null);
+  }, []);
+
+  // Voices load asynchronously in some browsers
+  useEffect(() => {
+    if (!showSettings || !isNarrationSupported()) return;
+    const loadVoices = () => setVoices(getNarrationVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, [showSettings]);
+
+  useEffect(() => {
+    if (!showChapters) return;
+    getDownloadedChapterNumbers(novel.id)
+      .then(numbers => setDownloadedChapters(new Set(numbers)))
+      .catch(console.error);
+  }, [showChapters, novel.id]);
+
+  // Tick off chapters as the download queue finishes them
+  useEffect(() => subscribeDownloadEvents(event => {
+    if (event.type === 'chapter' && event.novelId === novel.id) {
+      setDownloadedChapters(prev => new Set(prev).add(event.chapterNumber));
+    }
+  }), [novel.id]);
+
+  const downloadJob = useDownloadQueue().find(j => j.novelId === novel.id);
   
   // Trigger auto-generate if settings enabled and user reaches bottom (simplified: doing it on load if configured, or maybe just manual is better for cost)
   // For now we keep it manual or explicitly via button, but settings toggle exists.
@@ -95,7 +598,10 @@ const Reader: React.FC<ReaderProps> = ({
     const diff = touchStart.current - touchEnd;
     setSwipeHint(null);
 
-    if (Math.abs(diff) > 100) { // Threshold
+    if (isPaged) {
+        // Page turns are lighter than chapter jumps; turnPage crosses chapters at the edges
+        if (Math.abs(diff) > 50) turnPage(diff > 0 ? 1 : -1);
+    } else if (Math.abs(diff) > 100) { // Threshold
         if (diff > 0) onNextChapter();
         else onPrevChapter();
     }
@@ -110,12 +616,12 @@ const Reader: React.FC<ReaderProps> = ({
       e?.stopPropagation(); // Prevent toggling controls
       setIsGeneratingImage(true);
       try {
-          const base64 = await generateChapterImage(content);
+          const base64 = await getAiBackend().generateChapterImage(content);
           setGeneratedImage(base64);
-          localStorage.setItem(`img_${novel.id}_ch${chapter.chapterNumber}`, base64);
+          await saveChapterImage(novel.id, chapter.chapterNumber, dataUrlToBlob(base64));
       } catch (e) {
-          // Toast will be handled by App logic if we hoisted it, but here we just alert safely or ignore
           console.error(e);
+          onAiError?.(e, () => handleGenerateImage());
       } finally {
           setIsGeneratingImage(false);
       }
@@ -132,6 +638,86 @@ const Reader: React.FC<ReaderProps> = ({
   
   const getTextColor = () => settings.theme === 'future' ? 'text-slate-300' : '';
 
+  // Shared by the scroll and paginated layouts
+  const chapterBody = (
+    <>
+      <h1 className="text-3xl font-bold mb-12 text-center tracking-tight leading-tight">{chapter.title}</h1>
+
+      <MarkdownContent
+        document={markdown}
+        paragraphSpacing={settings.paragraphSpacing}
+        theme={settings.theme}
+        highlights={markedRanges}
+        bookmarks={bookmarks}
+        activeParagraph={narration === 'off' ? null : narratedParagraph}
+        onHighlightClick={id => setEditingAnnotation(annotations.find(a => a.id === id) || null)}
+      />
+
+      {isGenerating ? (
+        <div className="mt-12 flex flex-col items-center gap-3 opacity-70" aria-live="polite">
+            <span className="inline-block w-2 h-5 bg-blue-500 animate-pulse shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
+            <p className="text-[10px] uppercase tracking-[0.3em] font-tech animate-pulse">Receiving Transmission...</p>
+        </div>
+      ) : (
+      /* Memory Shard (Visualization) */
+      <div className="mt-20 pt-10 border-t border-white/10 flex flex-col items-center gap-8">
+          <div className="text-center">
+              <p className="text-[10px] uppercase tracking-[0.3em] opacity-50 font-tech mb-2">CHAPTER {chapter.chapterNumber} COMPLETE</p>
+              <div className="h-1 w-20 bg-blue-500 mx-auto rounded-full shadow-[0_0_10px_rgba(59,130,246,0.5)]"></div>
+          </div>
+
+          {generatedImage ? (
+              <div className="w-full relative group">
+                  <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-cyan-600 rounded-2xl blur opacity-20 group-hover:opacity-40 transition duration-1000"></div>
+                  <div className="relative w-full rounded-2xl overflow-hidden shadow-2xl bg-black border border-white/10">
+                      <img src={generatedImage} alt="Visual" className="w-full h-auto opacity-90 hover:opacity-100 transition-opacity duration-700" style={isPaged ? { maxHeight: '60vh', objectFit: 'contain' } : undefined} />
+                      <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/90 to-transparent">
+                          <p className="text-[10px] text-blue-200 font-tech uppercase tracking-widest text-center drop-shadow-md">Memory Shard Acquired</p>
+                      </div>
+                  </div>
+              </div>
+          ) : (
+              <button 
+                  onClick={handleGenerateImage}
+                  disabled={isGeneratingImage}
+                  className="w-full py-6 rounded-2xl bg-gradient-to-br from-[#1e293b] to-[#0f172a] border border-blue-500/20 hover:border-blue-500/50 group relative overflow-hidden transition-all shadow-xl"
+              >
+                   <div className="absolute inset-0 bg-blue-500/5 group-hover:bg-blue-500/10 transition-colors"></div>
+                   <div className="relative flex flex-col items-center gap-3">
+                       {isGeneratingImage ? (
+                           <RefreshIcon className="animate-spin w-8 h-8 text-blue-500"/>
+                       ) : (
+                           <div className="w-12 h-12 rounded-full bg-blue-500/10 flex items-center justify-center border border-blue-500/30 group-hover:scale-110 transition-transform duration-300 shadow-[0_0_15px_rgba(59,130,246,0.3)]">
+                               <span className="text-2xl">✨</span>
+                           </div>
+                       )}
+                       <span className="text-sm font-bold font-tech tracking-wider text-blue-200 group-hover:text-white transition-colors">
+                           {isGeneratingImage ? "SYNCHRONIZING VISUAL DATA..." : "MATERIALIZE VISUAL"}
+                       </span>
+                   </div>
+              </button>
+          )}
+
+          <div className="flex gap-4 w-full mt-8">
+              <button 
+                  onClick={(e) => { e.stopPropagation(); onPrevChapter(); }} 
+                  className="flex-1 py-4 bg-white/5 border border-white/10 rounded-xl font-bold text-xs font-tech tracking-widest hover:bg-white/10 transition-colors active:scale-95"
+              >
+                  PREVIOUS
+              </button>
+              <button 
+                  onClick={(e) => { e.stopPropagation(); onNextChapter(); }}
+                  className="flex-1 py-4 bg-blue-600 text-white rounded-xl font-bold text-xs font-tech tracking-widest shadow-lg shadow-blue-900/50 hover:bg-blue-500 active:scale-95 transition-all relative overflow-hidden group"
+              >
+                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full group-hover:animate-[shimmer_1.5s_infinite]"></div>
+                  NEXT CHAPTER
+              </button>
+          </div>
+      </div>
+      )}
+    </>
+  );
+
   return (
     <div 
         className={`min-h-screen ${getThemeClass()} transition-colors duration-500 relative overflow-hidden`}
@@ -160,9 +746,36 @@ const Reader: React.FC<ReaderProps> = ({
             className="flex-1 text-center mx-4 cursor-pointer active:scale-95 transition-transform"
             onClick={(e) => { e.stopPropagation(); setShowChapters(true); }}
         >
-            <h1 className={`text-[9px] font-bold uppercase tracking-[0.2em] mb-1 ${settings.theme === 'future' ? 'text-blue-500' : 'text-gray-500'}`}>Chapter {chapter.chapterNumber}</h1>
+            <h1 className={`text-[9px] font-bold uppercase tracking-[0.2em] mb-1 ${settings.theme === 'future' ? 'text-blue-500' : 'text-gray-500'}`}>Chapter {chapter.chapterNumber}{isGenerating && <span className="animate-pulse"> · Generating</span>}</h1>
             <h2 className={`text-xs font-bold truncate font-tech ${settings.theme === 'future' ? 'text-white' : 'text-gray-900'}`}>{chapter.title}</h2>
         </div>
+        {narration !== 'off' && (
+          <button
+            onClick={(e) => { e.stopPropagation(); stopNarration(); }}
+            title="Stop narration"
+            className={`px-2 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest opacity-60 hover:opacity-100 transition-opacity ${settings.theme === 'future' ? 'text-blue-400' : 'text-gray-700'}`}
+          >
+            STOP
+          </button>
+        )}
+        {isNarrationSupported() && (
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleNarration(); }}
+            title={narration === 'playing' ? 'Pause narration' : narration === 'paused' ? 'Resume narration' : 'Read aloud'}
+            className="p-3 rounded-xl hover:bg-white/10 active:scale-95 transition-all"
+          >
+            {narration === 'playing'
+              ? <PauseIcon className={`w-5 h-5 ${settings.theme === 'future' ? 'text-blue-400' : 'text-gray-700'}`} />
+              : <PlayIcon className={`w-5 h-5 ${settings.theme === 'future' ? 'text-blue-400' : 'text-gray-700'}`} />}
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleBookmark(anchorRef.current.paragraph); }}
+          title="Bookmark this paragraph"
+          className="p-3 rounded-xl hover:bg-white/10 active:scale-95 transition-all"
+        >
+          <BookmarkIcon className={`w-5 h-5 ${settings.theme === 'future' ? 'text-blue-400' : 'text-gray-700'}`} />
+        </button>
         <button 
           onClick={(e) => { e.stopPropagation(); setShowSettings(!showSettings); }} 
           className="p-3 -mr-2 rounded-xl hover:bg-white/10 active:scale-95 transition-all"
@@ -178,29 +791,45 @@ const Reader: React.FC<ReaderProps> = ({
             <div className={`h-[70vh] rounded-t-3xl shadow-2xl overflow-hidden flex flex-col ${settings.theme === 'future' ? 'bg-[#0f172a] text-white border-t border-blue-500/20' : 'bg-white text-gray-900'}`}>
                 <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
                     <h3 className="font-bold font-tech tracking-wide text-sm">CHAPTER INDEX</h3>
-                    <button onClick={() => setShowChapters(false)} className="p-2 opacity-50 hover:opacity-100">✕</button>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => { setShowChapters(false); setShowAnnotations(true); }} className="px-3 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest border border-current/20 opacity-60 hover:opacity-100 transition-opacity">ANNOTATIONS{annotations.length > 0 ? ` · ${annotations.length}` : ''}</button>
+                        <button onClick={() => { setShowChapters(false); setShowBible(true); }} className="px-3 py-1.5 rounded-lg text-[9px] font-bold font-tech tracking-widest border border-current/20 opacity-60 hover:opacity-100 transition-opacity">STORY BIBLE</button>
+                        <button onClick={() => setShowChapters(false)} className="p-2 opacity-50 hover:opacity-100">✕</button>
+                    </div>
                 </div>
                 <div className="flex-1 overflow-y-auto p-2 no-scrollbar">
                     {novel.chapters && novel.chapters.length > 0 ? (
-                        novel.chapters.map(ch => (
-                            <button
-                                key={ch.id}
-                                onClick={(e) => {
-                                    e.stopPropagation();
-                                    onSelectChapter(ch);
-                                    setShowChapters(false);
-                                }}
-                                className={`w-full text-left p-4 rounded-xl mb-2 flex justify-between items-center transition-all ${
-                                    ch.chapterNumber === chapter.chapterNumber 
-                                    ? 'bg-blue-600 shadow-lg shadow-blue-900/50 text-white' 
-                                    : settings.theme === 'future' ? 'hover:bg-white/5 text-gray-400' : 'hover:bg-gray-100 text-gray-700'
-                                }`}
-                            >
-                                <span className="text-xs font-bold font-tech tracking-wide">CH {ch.chapterNumber} <span className="opacity-50 mx-2">|</span> {ch.title}</span>
-                                {localStorage.getItem(`novel_content_${novel.id}_ch${ch.chapterNumber}`) && (
-                                    <CheckIcon className="w-4 h-4 opacity-70" />
+                        groupByVolume(novel.chapters).map((group, i) => (
+                            <React.Fragment key={group.chapters[0].id}>
+                                {group.volume && (
+                                    <div className={`px-4 pt-4 pb-2 text-[9px] font-bold font-tech tracking-widest uppercase opacity-50 ${i > 0 ? 'mt-2' : ''}`}>{group.volume}</div>
                                 )}
-                            </button>
+                                {group.chapters.map(ch => (
+                                    <button
+                                        key={ch.id}
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onSelectChapter(ch);
+                                            setShowChapters(false);
+                                        }}
+                                        className={`w-full text-left p-4 rounded-xl mb-2 flex justify-between items-center transition-all ${
+                                            ch.chapterNumber === chapter.chapterNumber 
+                                            ? 'bg-blue-600 shadow-lg shadow-blue-900/50 text-white' 
+                                            : settings.theme === 'future' ? 'hover:bg-white/5 text-gray-400' : 'hover:bg-gray-100 text-gray-700'
+                                        }`}
+                                    >
+                                        <span className="text-xs font-bold font-tech tracking-wide">CH {ch.chapterNumber} <span className="opacity-50 mx-2">|</span> {ch.title}</span>
+                                        {downloadedChapters.has(ch.chapterNumber) ? (
+                                            <CheckIcon className="w-4 h-4 opacity-70" />
+                                        ) : (() => {
+                                            const task = downloadJob?.tasks.find(t => t.chapterNumber === ch.chapterNumber);
+                                            if (!task) return null;
+                                            if (task.status === 'downloading') return <RefreshIcon className="w-4 h-4 animate-spin opacity-70" />;
+                                            return <span className={`text-[9px] font-mono uppercase ${task.status === 'failed' ? 'text-red-400' : 'opacity-50'}`}>{task.status}</span>;
+                                        })()}
+                                    </button>
+                                ))}
+                            </React.Fragment>
                         ))
                     ) : (
                         <div className="p-4 text-center opacity-50 font-mono text-xs">NO DATA AVAILABLE</div>
@@ -210,39 +839,119 @@ const Reader: React.FC<ReaderProps> = ({
         </div>
       )}
 
+      {showBible && <StoryBibleEditor novel={novel} onClose={() => setShowBible(false)} />}
+
+      {showAnnotations && (
+        <AnnotationsPanel
+          novel={novel}
+          annotations={annotations}
+          currentChapter={chapter.chapterNumber}
+          theme={settings.theme}
+          onJump={jumpToAnnotation}
+          onEdit={annotation => setEditingAnnotation(annotation)}
+          onClose={() => setShowAnnotations(false)}
+        />
+      )}
+
+      {editingAnnotation && (
+        <AnnotationEditor
+          annotation={editingAnnotation}
+          theme={settings.theme}
+          onSave={annotation => { storeAnnotation(annotation); setEditingAnnotation(null); }}
+          onDelete={annotation => { removeAnnotation(annotation); setEditingAnnotation(null); }}
+          onClose={() => setEditingAnnotation(null)}
+        />
+      )}
+
+      {/* Selection Toolbar (kept from taking the selection away when pressed) */}
+      {textSelection && (
+        <div
+          className={`fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-3 py-2 rounded-2xl shadow-2xl border animate-fade-in ${settings.theme === 'future' ? 'bg-[#0f172a]/95 border-blue-500/30 text-white' : 'bg-white border-gray-200 text-gray-900'}`}
+          onMouseDown={(e) => e.preventDefault()}
+          onTouchStart={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {HIGHLIGHT_COLORS.map(color => (
+            <button key={color} onClick={() => highlightSelection(color)} title={`Highlight ${color}`} className={`w-7 h-7 rounded-full border border-current/20 ${HIGHLIGHT_CLASSES[color]}`} />
+          ))}
+          <button onClick={() => highlightSelection('yellow', true)} className="px-2 py-1.5 text-[9px] font-bold font-tech tracking-widest opacity-70 hover:opacity-100">NOTE</button>
+          <button onClick={() => { toggleBookmark(textSelection.start.paragraph); clearSelection(); }} className="px-2 py-1.5 text-[9px] font-bold font-tech tracking-widest opacity-70 hover:opacity-100">BOOKMARK</button>
+        </div>
+      )}
+
       {/* Settings Panel */}
       {showSettings && (
-        <div className={`fixed top-16 right-4 w-72 p-5 rounded-2xl shadow-2xl z-50 border backdrop-blur-xl animate-fade-in ${settings.theme === 'future' ? 'bg-[#0f172a]/95 border-blue-500/30' : 'bg-white border-gray-200'}`}>
+        <div className={`fixed top-16 right-4 w-72 max-h-[calc(100vh-5rem)] overflow-y-auto no-scrollbar p-5 rounded-2xl shadow-2xl z-50 border backdrop-blur-xl animate-fade-in ${settings.theme === 'future' ? 'bg-[#0f172a]/95 border-blue-500/30' : 'bg-white border-gray-200'}`}>
+           <label className="flex items-center justify-between p-2 mb-4 rounded-lg bg-white/5 cursor-pointer">
+              <span className="text-[10px] font-bold uppercase tracking-widest opacity-70 font-tech">This Novel Only</span>
+              <div className={`w-10 h-5 rounded-full relative transition-colors ${hasOverride ? 'bg-blue-600' : 'bg-gray-700'}`} onClick={() => setOverride(!hasOverride)}>
+                  <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${hasOverride ? 'translate-x-5' : 'translate-x-0'}`} />
+              </div>
+           </label>
            <div className="mb-6">
             <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Appearance</label>
             <div className="grid grid-cols-4 gap-2">
-              <button onClick={() => setSettings(s => ({...s, theme: 'light'}))} className={`h-10 rounded-lg border-2 bg-white ${settings.theme === 'light' ? 'border-blue-500' : 'border-gray-200'}`} />
-              <button onClick={() => setSettings(s => ({...s, theme: 'sepia'}))} className={`h-10 rounded-lg border-2 bg-[#f4ecd8] ${settings.theme === 'sepia' ? 'border-blue-500' : 'border-[#e3dccb]'}`} />
-              <button onClick={() => setSettings(s => ({...s, theme: 'dark'}))} className={`h-10 rounded-lg border-2 bg-[#1a1a1a] ${settings.theme === 'dark' ? 'border-blue-500' : 'border-gray-700'}`} />
-              <button onClick={() => setSettings(s => ({...s, theme: 'future'}))} className={`h-10 rounded-lg border-2 bg-[#0f172a] relative overflow-hidden ${settings.theme === 'future' ? 'border-blue-400 shadow-[0_0_10px_rgba(59,130,246,0.5)]' : 'border-blue-900'}`}>
+              <button onClick={() => updateSettings({theme: 'light'})} className={`h-10 rounded-lg border-2 bg-white ${settings.theme === 'light' ? 'border-blue-500' : 'border-gray-200'}`} />
+              <button onClick={() => updateSettings({theme: 'sepia'})} className={`h-10 rounded-lg border-2 bg-[#f4ecd8] ${settings.theme === 'sepia' ? 'border-blue-500' : 'border-[#e3dccb]'}`} />
+              <button onClick={() => updateSettings({theme: 'dark'})} className={`h-10 rounded-lg border-2 bg-[#1a1a1a] ${settings.theme === 'dark' ? 'border-blue-500' : 'border-gray-700'}`} />
+              <button onClick={() => updateSettings({theme: 'future'})} className={`h-10 rounded-lg border-2 bg-[#0f172a] relative overflow-hidden ${settings.theme === 'future' ? 'border-blue-400 shadow-[0_0_10px_rgba(59,130,246,0.5)]' : 'border-blue-900'}`}>
                   <div className="absolute inset-0 bg-blue-500/20"></div>
               </button>
             </div>
           </div>
           <div className="mb-6">
-            <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Font Size</label>
-            <div className="flex items-center gap-4 bg-white/5 p-2 rounded-xl border border-white/10">
-              <button onClick={() => setSettings(s => ({...s, fontSize: Math.max(12, s.fontSize - 1)}))} className="w-8 h-8 flex items-center justify-center font-bold bg-white/10 rounded-lg">-</button>
-              <span className="flex-1 text-center text-xs font-mono">{settings.fontSize}px</span>
-              <button onClick={() => setSettings(s => ({...s, fontSize: Math.min(24, s.fontSize + 1)}))} className="w-8 h-8 flex items-center justify-center font-bold bg-white/10 rounded-lg">+</button>
-            </div>
+             <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Layout</label>
+             <div className="flex bg-black/20 rounded-xl p-1 gap-1">
+               <button onClick={() => switchReadingMode('scroll')} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${!isPaged ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>SCROLL</button>
+               <button onClick={() => switchReadingMode('paged')} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${isPaged ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>PAGES</button>
+             </div>
           </div>
+          <SettingStepper label="Font Size" value={settings.fontSize} display={`${settings.fontSize}px`} min={12} max={24} step={1} onChange={fontSize => updateSettings({fontSize})} />
           <div className="mb-6">
              <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Typography</label>
              <div className="flex bg-black/20 rounded-xl p-1 gap-1">
-               <button onClick={() => setSettings(s => ({...s, fontFamily: 'sans'}))} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.fontFamily === 'sans' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>SANS</button>
-               <button onClick={() => setSettings(s => ({...s, fontFamily: 'serif'}))} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.fontFamily === 'serif' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>SERIF</button>
+               <button onClick={() => updateSettings({fontFamily: 'sans'})} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.fontFamily === 'sans' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>SANS</button>
+               <button onClick={() => updateSettings({fontFamily: 'serif'})} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.fontFamily === 'serif' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>SERIF</button>
+             </div>
+          </div>
+          <SettingStepper label="Margins" value={settings.margin} display={`${settings.margin}px`} min={0} max={64} step={4} onChange={margin => updateSettings({margin})} />
+          <SettingStepper label="Text Width" value={settings.contentWidth} display={`${settings.contentWidth}px`} min={400} max={1000} step={40} onChange={contentWidth => updateSettings({contentWidth})} />
+          <SettingStepper label="Paragraph Spacing" value={settings.paragraphSpacing} display={`${settings.paragraphSpacing.toFixed(2)}em`} min={0} max={3} step={0.25} onChange={paragraphSpacing => updateSettings({paragraphSpacing})} />
+          <div className="mb-6">
+             <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Alignment</label>
+             <div className="flex bg-black/20 rounded-xl p-1 gap-1">
+               <button onClick={() => updateSettings({textAlign: 'left'})} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.textAlign === 'left' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>LEFT</button>
+               <button onClick={() => updateSettings({textAlign: 'justify'})} className={`flex-1 py-2 text-[10px] font-bold rounded-lg transition-all ${settings.textAlign === 'justify' ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5'}`}>JUSTIFY</button>
              </div>
           </div>
+          <SettingStepper label="Read Ahead" value={settings.prefetchChapters} display={settings.prefetchChapters > 0 ? `${settings.prefetchChapters} CH` : 'OFF'} min={0} max={5} step={1} onChange={prefetchChapters => updateSettings({prefetchChapters})} />
+          {settings.prefetchChapters > 0 && (
+            <>
+              <SettingStepper label="Start Read Ahead At" value={settings.prefetchThreshold} display={`${settings.prefetchThreshold}%`} min={10} max={100} step={10} onChange={prefetchThreshold => updateSettings({prefetchThreshold})} />
+              <SettingStepper label="Storage Budget" value={settings.prefetchStorageBudget} display={`${settings.prefetchStorageBudget} MB`} min={100} max={2000} step={100} onChange={prefetchStorageBudget => updateSettings({prefetchStorageBudget})} />
+            </>
+          )}
+          {isNarrationSupported() && (
+            <>
+              <div className="mb-6">
+                <label className="text-[10px] font-bold uppercase tracking-widest opacity-50 mb-3 block font-tech">Narration Voice</label>
+                <select
+                  value={settings.narrationVoice}
+                  onChange={(e) => updateSettings({narrationVoice: e.target.value})}
+                  className={`w-full px-3 py-2 rounded-xl text-xs outline-none border focus:border-blue-500 ${settings.theme === 'future' ? 'bg-[#0f172a] border-white/10 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'}`}
+                >
+                  <option value="">System default</option>
+                  {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+                </select>
+              </div>
+              <SettingStepper label="Narration Speed" value={settings.narrationRate} display={`${settings.narrationRate.toFixed(1)}x`} min={0.5} max={2} step={0.1} onChange={narrationRate => updateSettings({narrationRate})} />
+              <SettingStepper label="Narration Pitch" value={settings.narrationPitch} display={settings.narrationPitch.toFixed(1)} min={0.5} max={2} step={0.1} onChange={narrationPitch => updateSettings({narrationPitch})} />
+            </>
+          )}
           <div>
               <label className="flex items-center justify-between p-2 rounded-lg hover:bg-white/5 cursor-pointer group">
                   <span className="text-[10px] font-bold uppercase tracking-widest opacity-50 font-tech">Auto-Visualize</span>
-                  <div className={`w-10 h-5 rounded-full relative transition-colors ${settings.autoGenerateImage ? 'bg-blue-600' : 'bg-gray-700'}`} onClick={() => setSettings(s => ({...s, autoGenerateImage: !s.autoGenerateImage}))}>
+                  <div className={`w-10 h-5 rounded-full relative transition-colors ${settings.autoGenerateImage ? 'bg-blue-600' : 'bg-gray-700'}`} onClick={() => updateSettings({autoGenerateImage: !settings.autoGenerateImage})}>
                       <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.autoGenerateImage ? 'translate-x-5' : 'translate-x-0'}`} />
                   </div>
               </label>
@@ -251,79 +960,51 @@ const Reader: React.FC<ReaderProps> = ({
       )}
 
       {/* Content Area */}
-      <div 
-        className={`pt-24 pb-40 px-6 md:px-0 max-w-2xl mx-auto leading-relaxed relative z-10 ${settings.fontFamily === 'serif' ? 'font-serif' : 'font-sans'} ${getTextColor()}`}
-        style={{ fontSize: `${settings.fontSize}px`, lineHeight: settings.lineHeight }}
-      >
-        <h1 className="text-3xl font-bold mb-12 text-center tracking-tight leading-tight">{chapter.title}</h1>
-        
-        {content.split('\n').map((para, i) => (
-          <p key={i} className={`mb-6 ${para.trim().startsWith('#') ? 'text-xl font-bold mt-8 opacity-90' : 'opacity-80'}`}>
-             {para.replace(/^#\s/, '')}
-          </p>
-        ))}
-        
-        {/* Memory Shard (Visualization) */}
-        <div className="mt-20 pt-10 border-t border-white/10 flex flex-col items-center gap-8">
-            <div className="text-center">
-                <p className="text-[10px] uppercase tracking-[0.3em] opacity-50 font-tech mb-2">CHAPTER {chapter.chapterNumber} COMPLETE</p>
-                <div className="h-1 w-20 bg-blue-500 mx-auto rounded-full shadow-[0_0_10px_rgba(59,130,246,0.5)]"></div>
-            </div>
-            
-            {generatedImage ? (
-                <div className="w-full relative group">
-                    <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-cyan-600 rounded-2xl blur opacity-20 group-hover:opacity-40 transition duration-1000"></div>
-                    <div className="relative w-full rounded-2xl overflow-hidden shadow-2xl bg-black border border-white/10">
-                        <img src={generatedImage} alt="Visual" className="w-full h-auto opacity-90 hover:opacity-100 transition-opacity duration-700" />
-                        <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/90 to-transparent">
-                            <p className="text-[10px] text-blue-200 font-tech uppercase tracking-widest text-center drop-shadow-md">Memory Shard Acquired</p>
-                        </div>
-                    </div>
-                </div>
-            ) : (
-                <button 
-                    onClick={handleGenerateImage}
-                    disabled={isGeneratingImage}
-                    className="w-full py-6 rounded-2xl bg-gradient-to-br from-[#1e293b] to-[#0f172a] border border-blue-500/20 hover:border-blue-500/50 group relative overflow-hidden transition-all shadow-xl"
-                >
-                     <div className="absolute inset-0 bg-blue-500/5 group-hover:bg-blue-500/10 transition-colors"></div>
-                     <div className="relative flex flex-col items-center gap-3">
-                         {isGeneratingImage ? (
-                             <RefreshIcon className="animate-spin w-8 h-8 text-blue-500"/>
-                         ) : (
-                             <div className="w-12 h-12 rounded-full bg-blue-500/10 flex items-center justify-center border border-blue-500/30 group-hover:scale-110 transition-transform duration-300 shadow-[0_0_15px_rgba(59,130,246,0.3)]">
-                                 <span className="text-2xl">✨</span>
-                             </div>
-                         )}
-                         <span className="text-sm font-bold font-tech tracking-wider text-blue-200 group-hover:text-white transition-colors">
-                             {isGeneratingImage ? "SYNCHRONIZING VISUAL DATA..." : "MATERIALIZE VISUAL"}
-                         </span>
-                     </div>
-                </button>
-            )}
-
-            <div className="flex gap-4 w-full mt-8">
-                <button 
-                    onClick={(e) => { e.stopPropagation(); onPrevChapter(); }} 
-                    className="flex-1 py-4 bg-white/5 border border-white/10 rounded-xl font-bold text-xs font-tech tracking-widest hover:bg-white/10 transition-colors active:scale-95"
-                >
-                    PREVIOUS
-                </button>
-                <button 
-                    onClick={(e) => { e.stopPropagation(); onNextChapter(); }}
-                    className="flex-1 py-4 bg-blue-600 text-white rounded-xl font-bold text-xs font-tech tracking-widest shadow-lg shadow-blue-900/50 hover:bg-blue-500 active:scale-95 transition-all relative overflow-hidden group"
-                >
-                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full group-hover:animate-[shimmer_1.5s_infinite]"></div>
-                    NEXT CHAPTER
-                </button>
+      {isPaged ? (
+        <div className="fixed inset-0 z-10 pt-20 pb-12" style={{ paddingLeft: `${settings.margin}px`, paddingRight: `${settings.margin}px` }} onClick={handlePageTap}>
+          <div className="h-full mx-auto overflow-hidden" style={{ maxWidth: `${settings.contentWidth}px` }}>
+            <div
+              ref={columnsRef}
+              className={`h-full relative leading-relaxed transition-transform duration-300 ease-out ${settings.fontFamily === 'serif' ? 'font-serif' : 'font-sans'} ${getTextColor()}`}
+              style={{
+                fontSize: `${settings.fontSize}px`,
+                lineHeight: settings.lineHeight,
+                textAlign: settings.textAlign,
+                columnCount: 1,
+                columnGap: `${PAGE_GAP}px`,
+                columnFill: 'auto',
+                transform: `translateX(-${page * pageStride()}px)`,
+              }}
+            >
+              {chapterBody}
             </div>
+          </div>
         </div>
-      </div>
+      ) : (
+        <div 
+          className={`pt-24 pb-40 mx-auto leading-relaxed relative z-10 box-content ${settings.fontFamily === 'serif' ? 'font-serif' : 'font-sans'} ${getTextColor()}`}
+          style={{
+            fontSize: `${settings.fontSize}px`,
+            lineHeight: settings.lineHeight,
+            maxWidth: `${settings.contentWidth}px`,
+            paddingLeft: `${settings.margin}px`,
+            paddingRight: `${settings.margin}px`,
+            textAlign: settings.textAlign,
+          }}
+        >
+          {chapterBody}
+        </div>
+      )}
 
       {/* Futuristic Progress Bar */}
       <div className={`fixed bottom-0 left-0 right-0 h-1 bg-white/5 z-50 transition-all duration-500 ${controlsVisible ? 'opacity-100' : 'opacity-0'}`}>
-        <div className="h-full bg-gradient-to-r from-blue-500 to-cyan-400 shadow-[0_0_10px_rgba(6,182,212,0.5)]" style={{ width: `${scrollProgress}%` }} />
+        <div className="h-full bg-gradient-to-r from-blue-500 to-cyan-400 shadow-[0_0_10px_rgba(6,182,212,0.5)]" style={{ width: `${isPaged ? ((page + 1) / pageCount) * 100 : scrollProgress}%` }} />
       </div>
+      {isPaged && (
+        <div className={`fixed bottom-3 left-0 right-0 text-center text-[9px] font-mono opacity-50 z-50 pointer-events-none transition-opacity duration-500 ${controlsVisible ? 'opacity-50' : 'opacity-0'}`}>
+          {page + 1} / {pageCount}
+        </div>
+      )}
     </div>
   );
 };
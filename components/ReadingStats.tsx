@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LibraryItem, ReadingSession } from '../types';
+import { getReadingSessions } from '../services/storageService';
+import { computeReadingStats, formatReadingTime } from '../services/readingStatsService';
+
+interface ReadingStatsProps {
+  library: LibraryItem[];
+}
+
+const StatTile = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+    <div className="text-[9px] font-bold font-tech tracking-widest text-gray-500">{label}</div>
+    <div className="text-lg font-bold font-tech text-white mt-1">{value}</div>
+    {detail && <div className="text-[9px] font-mono text-gray-500 mt-0.5">{detail}</div>}
+  </div>
+);
+
+/**
+ * Library section summarizing the reading history: time per day, totals, streaks and how far
+ * into each novel the user is. Hidden until something has been read.
+ */
+const ReadingStats = ({ library }: ReadingStatsProps) => {
+  const [sessions, setSessions] = useState<ReadingSession[] | null>(null);
+
+  // The library view remounts this after every reading session, so loading once is enough
+  useEffect(() => {
+    getReadingSessions().then(setSessions).catch(e => console.error("Failed to load reading history", e));
+  }, []);
+
+  const stats = useMemo(() => sessions && computeReadingStats(sessions, library), [sessions, library]);
+  if (!stats || sessions!.length === 0) return null;
+
+  const maxDay = Math.max(...stats.days.map(d => d.time), 1);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] font-tech border-b border-white/10 pb-2">Reading Stats</h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatTile label="TIME READ" value={formatReadingTime(stats.totalTime)} />
+        <StatTile label="STREAK" value={`${stats.currentStreak} ${stats.currentStreak === 1 ? 'DAY' : 'DAYS'}`} detail={`BEST ${stats.longestStreak}`} />
+        <StatTile label="CHAPTERS FINISHED" value={String(stats.chaptersFinished)} />
+        <StatTile label="WORDS READ" value={stats.wordsRead.toLocaleString()} />
+      </div>
+
+      <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+        <div className="text-[9px] font-bold font-tech tracking-widest text-gray-500 mb-3">LAST {stats.days.length} DAYS</div>
+        <div className="flex items-end gap-1 h-20">
+          {stats.days.map(day => (
+            <div key={day.date} className="flex-1 h-full flex items-end" title={`${day.date}: ${formatReadingTime(day.time)}`}>
+              <div
+                className={`w-full rounded-sm ${day.time > 0 ? 'bg-blue-500' : 'bg-white/10'}`}
+                style={{ height: day.time > 0 ? `${Math.max(6, (day.time / maxDay) * 100)}%` : '2px' }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {stats.novels.length > 0 && (
+        <div className="space-y-3">
+          {stats.novels.map(novel => (
+            <div key={novel.novelId}>
+              <div className="flex justify-between gap-2 text-[10px] mb-1">
+                <span className="text-white truncate">{novel.title}</span>
+                <span className="text-gray-500 font-mono shrink-0">{novel.finished}/{novel.total} · {novel.percent}%</span>
+              </div>
+              <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${novel.percent}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReadingStats;
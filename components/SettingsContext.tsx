@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ReaderSettings, StoredReaderSettings } from '../types';
+import { DEFAULT_READER_SETTINGS, loadReaderSettings, saveReaderSettings, resolveReaderSettings } from '../services/settingsService';
+
+interface SettingsContextValue {
+  settings: StoredReaderSettings;
+  // Writes to the novel's override when it has one, otherwise to the global defaults
+  updateSettings: (patch: Partial<ReaderSettings>, novelId?: string) => void;
+  setNovelOverride: (novelId: string, enabled: boolean) => void;
+  clearNovelSettings: (novelId: string) => void;
+  reloadSettings: () => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export const SettingsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [settings, setSettings] = useState<StoredReaderSettings>({ defaults: DEFAULT_READER_SETTINGS, overrides: {} });
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reloadSettings = async () => {
+    try {
+      setSettings(await loadReaderSettings());
+    } catch (e) {
+      console.error("Failed to load reader settings", e);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  useEffect(() => { reloadSettings(); }, []);
+
+  // Persist once loaded, so the stored copy is never replaced by the initial defaults
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveReaderSettings(settings).catch(e => console.error("Failed to save reader settings", e));
+  }, [settings, isLoaded]);
+
+  const updateSettings = (patch: Partial<ReaderSettings>, novelId?: string) => {
+    setSettings(prev => {
+      if (novelId && prev.overrides[novelId]) {
+        return { ...prev, overrides: { ...prev.overrides, [novelId]: { ...prev.overrides[novelId], ...patch } } };
+      }
+      return { ...prev, defaults: { ...prev.defaults, ...patch } };
+    });
+  };
+
+  const setNovelOverride = (novelId: string, enabled: boolean) => {
+    setSettings(prev => {
+      const overrides = { ...prev.overrides };
+      if (enabled) overrides[novelId] = { ...resolveReaderSettings(prev, novelId) };
+      else delete overrides[novelId];
+      return { ...prev, overrides };
+    });
+  };
+
+  const clearNovelSettings = (novelId: string) => setNovelOverride(novelId, false);
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, setNovelOverride, clearNovelSettings, reloadSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = (): SettingsContextValue => {
+  const ctx = useContext(SettingsContext);
+  if (!ctx) throw new Error("useSettings must be used inside a SettingsProvider");
+  return ctx;
+};
+
+/**
+ * Effective settings for one novel, plus setters scoped to it.
+ */
+export const useReaderSettings = (novelId?: string) => {
+  const { settings, updateSettings, setNovelOverride } = useSettings();
+  return {
+    settings: resolveReaderSettings(settings, novelId),
+    hasOverride: !!(novelId && settings.overrides[novelId]),
+    update: (patch: Partial<ReaderSettings>) => updateSettings(patch, novelId),
+    setOverride: (enabled: boolean) => novelId && setNovelOverride(novelId, enabled),
+  };
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryItem, StoryBible } from '../types';
+import { loadStoryBible } from '../services/storyBibleService';
+import { saveStoryBible } from '../services/storageService';
+import { RefreshIcon } from './Icons';
+
+interface StoryBibleEditorProps {
+  novel: LibraryItem;
+  onClose: () => void;
+}
+
+type Tab = 'summaries' | 'characters' | 'glossary';
+
+const inputClass = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs text-white outline-none focus:border-blue-500 transition-colors";
+
+const RemoveButton = ({ onClick }: { onClick: () => void }) => (
+  <button onClick={onClick} className="p-2 text-red-300 opacity-60 hover:opacity-100 transition-opacity shrink-0" title="Remove">✕</button>
+);
+
+/**
+ * View and edit a novel's story bible (chapter summaries, characters, glossary).
+ */
+const StoryBibleEditor = ({ novel, onClose }: StoryBibleEditorProps) => {
+  const [bible, setBible] = useState<StoryBible | null>(null);
+  const [tab, setTab] = useState<Tab>('summaries');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStoryBible(novel.id).then(setBible).catch(e => {
+      console.error("Failed to load story bible", e);
+      setError("LOAD FAILED.");
+    });
+  }, [novel.id]);
+
+  const update = (patch: Partial<StoryBible>) => setBible(prev => prev && { ...prev, ...patch });
+
+  const handleSave = async () => {
+    if (!bible) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveStoryBible({
+        ...bible,
+        summaries: bible.summaries.filter(s => s.summary.trim()),
+        characters: bible.characters.filter(c => c.name.trim()),
+        glossary: bible.glossary.filter(g => g.term.trim()),
+        updatedAt: Date.now(),
+      });
+      onClose();
+    } catch (e) {
+      console.error("Failed to save story bible", e);
+      setError("SAVE FAILED.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const chapterTitle = (chapterNumber: number) => novel.chapters.find(c => c.chapterNumber === chapterNumber)?.title;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-[#0f172a] border border-blue-500/30 rounded-2xl shadow-2xl text-gray-100" onClick={(e) => e.stopPropagation()}>
+        <div className="p-5 border-b border-white/10">
+          <h3 className="font-tech font-bold text-sm tracking-wide text-white">STORY BIBLE</h3>
+          <p className="text-[10px] text-gray-400 mt-1 truncate">{novel.title} · used as context when new chapters are generated</p>
+          <div className="flex bg-black/20 rounded-xl p-1 gap-1 mt-4">
+            {(['summaries', 'characters', 'glossary'] as Tab[]).map(t => (
+              <button key={t} onClick={() => setTab(t)} className={`flex-1 py-2 text-[10px] font-bold font-tech tracking-widest uppercase rounded-lg transition-all ${tab === t ? 'bg-blue-600 text-white shadow' : 'hover:bg-white/5 text-gray-400'}`}>
+                {t}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-5 space-y-3">
+          {!bible ? (
+            <div className="flex justify-center py-10">{error ? null : <RefreshIcon className="w-6 h-6 animate-spin text-blue-500" />}</div>
+          ) : tab === 'summaries' ? (
+            bible.summaries.length === 0 ? (
+              <p className="text-center py-10 text-[10px] font-tech tracking-widest opacity-50">SUMMARIES APPEAR AS CHAPTERS ARE GENERATED</p>
+            ) : bible.summaries.map((s, i) => (
+              <div key={s.chapterNumber}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[10px] font-bold font-tech tracking-widest text-blue-400 truncate">CH {s.chapterNumber}{chapterTitle(s.chapterNumber) ? ` · ${chapterTitle(s.chapterNumber)}` : ''}</span>
+                  <RemoveButton onClick={() => update({ summaries: bible.summaries.filter((_, j) => j !== i) })} />
+                </div>
+                <textarea
+                  value={s.summary}
+                  rows={3}
+                  onChange={(e) => update({ summaries: bible.summaries.map((x, j) => j === i ? { ...x, summary: e.target.value } : x) })}
+                  className={`${inputClass} resize-y leading-relaxed`}
+                />
+              </div>
+            ))
+          ) : tab === 'characters' ? (
+            <>
+              {bible.characters.map((c, i) => (
+                <div key={i} className="flex gap-2 items-start">
+                  <div className="flex-1 space-y-1.5">
+                    <input value={c.name} placeholder="Name" onChange={(e) => update({ characters: bible.characters.map((x, j) => j === i ? { ...x, name: e.target.value } : x) })} className={`${inputClass} font-bold`} />
+                    <textarea value={c.description} placeholder="Description" rows={2} onChange={(e) => update({ characters: bible.characters.map((x, j) => j === i ? { ...x, description: e.target.value } : x) })} className={`${inputClass} resize-y`} />
+                  </div>
+                  <RemoveButton onClick={() => update({ characters: bible.characters.filter((_, j) => j !== i) })} />
+                </div>
+              ))}
+              <button onClick={() => update({ characters: [...bible.characters, { name: '', description: '' }] })} className="w-full py-2 border border-dashed border-white/20 rounded-xl text-[10px] font-bold font-tech tracking-widest text-gray-400 hover:text-white hover:border-blue-500/50 transition-colors">+ ADD CHARACTER</button>
+            </>
+          ) : (
+            <>
+              {bible.glossary.map((g, i) => (
+                <div key={i} className="flex gap-2 items-start">
+                  <div className="flex-1 space-y-1.5">
+                    <input value={g.term} placeholder="Term" onChange={(e) => update({ glossary: bible.glossary.map((x, j) => j === i ? { ...x, term: e.target.value } : x) })} className={`${inputClass} font-bold`} />
+                    <textarea value={g.definition} placeholder="Definition" rows={2} onChange={(e) => update({ glossary: bible.glossary.map((x, j) => j === i ? { ...x, definition: e.target.value } : x) })} className={`${inputClass} resize-y`} />
+                  </div>
+                  <RemoveButton onClick={() => update({ glossary: bible.glossary.filter((_, j) => j !== i) })} />
+                </div>
+              ))}
+              <button onClick={() => update({ glossary: [...bible.glossary, { term: '', definition: '' }] })} className="w-full py-2 border border-dashed border-white/20 rounded-xl text-[10px] font-bold font-tech tracking-widest text-gray-400 hover:text-white hover:border-blue-500/50 transition-colors">+ ADD TERM</button>
+            </>
+          )}
+        </div>
+
+        {error && <p className="px-5 pt-3 text-[10px] font-bold font-tech tracking-widest text-red-300">{error}</p>}
+        <div className="p-4 border-t border-white/10 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-white/10 active:scale-95 transition-all">CANCEL</button>
+          <button onClick={handleSave} disabled={!bible || isSaving} className="flex-1 py-3 bg-blue-600 text-white rounded-xl text-[10px] font-bold font-tech tracking-widest hover:bg-blue-500 disabled:opacity-50 active:scale-95 transition-all">
+            {isSaving ? 'SAVING...' : 'SAVE'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryBibleEditor;
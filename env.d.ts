@@ -1,6 +0,0 @@
-declare namespace NodeJS {
-  interface ProcessEnv {
-    readonly API_KEY: string;
-    readonly VITE_API_KEY: string;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { AiBackend } from "../types";
+import { geminiBackend } from "./geminiService";
+import { createMockBackend } from "./mockAiService";
+import { AiFixture, recordingBackend } from "./aiFixtures";
+import { getSetting, saveSetting } from "./storageService";
+
+// --- AI backend selection ---
+// Everything that calls the AI goes through getAiBackend(). The mock backend can be forced for
+// a whole build with VITE_AI_BACKEND=mock (e.g. `VITE_AI_BACKEND=mock npm run dev`), or picked
+// in Settings, where fixtures are also loaded and recorded.
+
+export type AiBackendId = 'gemini' | 'mock';
+
+const AI_BACKEND_KEY = 'aiBackend';
+const AI_FIXTURE_KEY = 'aiFixture';
+
+const ENV_BACKEND: AiBackendId | null = import.meta.env.VITE_AI_BACKEND === 'mock' ? 'mock' : null;
+
+let selected: AiBackendId = ENV_BACKEND || 'gemini';
+let fixture: AiFixture | null = null; // replayed by the mock
+let recording: AiFixture | null = null; // being captured from Gemini
+
+const mockBackend = createMockBackend(() => fixture);
+
+export const getAiBackend = (): AiBackend => {
+  if (selected === 'mock') return mockBackend;
+  return recording ? recordingBackend(geminiBackend, recording) : geminiBackend;
+};
+
+export const getAiBackendId = (): AiBackendId => selected;
+
+/** True when the build forces a backend, so Settings can't change it. */
+export const isAiBackendFixed = () => !!ENV_BACKEND;
+
+/** Only the real backend needs an API key. */
+export const aiBackendNeedsApiKey = () => selected === 'gemini';
+
+/** Restores the chosen backend and loaded fixture. Call once on start. */
+export const loadAiBackend = async (): Promise<void> => {
+  const [savedBackend, savedFixture] = await Promise.all([
+    getSetting<AiBackendId>(AI_BACKEND_KEY),
+    getSetting<AiFixture | null>(AI_FIXTURE_KEY),
+  ]);
+  if (!ENV_BACKEND) selected = savedBackend === 'mock' ? 'mock' : 'gemini';
+  fixture = savedFixture || null;
+};
+
+export const setAiBackendId = async (id: AiBackendId): Promise<void> => {
+  if (ENV_BACKEND) return;
+  await saveSetting(AI_BACKEND_KEY, id);
+  selected = id;
+};
+
+export const getAiFixture = (): AiFixture | null => fixture;
+
+/** Sets (or with null, removes) the fixture the mock replays. */
+export const setAiFixture = async (next: AiFixture | null): Promise<void> => {
+  await saveSetting(AI_FIXTURE_KEY, next);
+  fixture = next;
+};
+
+export const isRecording = () => !!recording;
+
+/** Starts capturing Gemini responses into a new fixture. */
+export const startRecording = () => {
+  recording = {};
+};
+
+/** Stops capturing and returns what was recorded. */
+export const stopRecording = (): AiFixture => {
+  const recorded = recording || {};
+  recording = null;
+  return recorded;
+};
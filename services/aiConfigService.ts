@@ -0,0 +1,176 @@
+import { AiConfig, AiTask, AiTaskConfig } from "../types";
+import { getSetting, saveSetting } from "./storageService";
+
+// --- AI task configuration ---
+// Every Gemini call reads its model, temperature, prompt template and target length from here.
+// The config is a user setting (so it is included in backups) and can be shared as a JSON preset.
+
+const AI_CONFIG_KEY = 'aiConfig';
+const PRESET_FORMAT = 'ranobe-ai-config';
+const PRESET_VERSION = 1;
+
+export const AI_TASKS: AiTask[] = ['search', 'chapterList', 'chapterText', 'chapterNotes', 'sceneSummary', 'image'];
+
+export interface AiTaskInfo {
+  label: string;
+  variables: string[]; // placeholders the prompt template can use
+  lengthUnit: string | null; // what targetLength counts; null when the task has no length
+}
+
+export const AI_TASK_INFO: Record<AiTask, AiTaskInfo> = {
+  search: { label: 'Search', variables: ['query', 'targetLength'], lengthUnit: 'results' },
+  chapterList: { label: 'Chapter List', variables: ['novelTitle', 'startChapter', 'endChapter', 'previousChapters', 'targetLength'], lengthUnit: 'chapters per batch' },
+  chapterText: { label: 'Chapter Text', variables: ['novelTitle', 'chapterNumber', 'chapterTitle', 'storyContext', 'targetLength'], lengthUnit: 'words' },
+  chapterNotes: { label: 'Story Bible', variables: ['novelTitle', 'chapterNumber', 'chapterTitle', 'storyContext', 'content', 'targetLength'], lengthUnit: 'sentences' },
+  sceneSummary: { label: 'Scene Summary', variables: ['content', 'targetLength'], lengthUnit: 'words' },
+  image: { label: 'Image', variables: ['scene'], lengthUnit: null },
+};
+
+export const DEFAULT_AI_CONFIG: AiConfig = {
+  search: {
+    model: 'gemini-2.5-flash',
+    temperature: 0.7,
+    targetLength: 4,
+    prompt: `Search for the light novel series: "{{query}}".
+Find {{targetLength}} distinct results.
+For each, find:
+1. Precise Title
+2. Author Name
+3. A brief 1-sentence description
+4. Status (Ongoing/Completed)
+5. A direct URL to the Cover Image. PREFER URLs from: Wikimedia, Wikipedia, Amazon, or GoodReads. Avoid URLs that look like temporary session links.
+
+Return the result strictly as a JSON array with these keys:
+title, author, description, coverUrl, tags (array of strings), status.`,
+  },
+  chapterList: {
+    model: 'gemini-2.5-flash',
+    temperature: 0.7,
+    targetLength: 20,
+    prompt: `List chapters {{startChapter}} to {{endChapter}} of the light novel "{{novelTitle}}".
+{{previousChapters}}
+Return a JSON array of objects with keys: "chapterNumber" (number), "title" (string) and "volume" (string, the volume or arc the chapter belongs to; leave it out if the novel has none).
+If the novel ends before chapter {{endChapter}}, return only the chapters that exist, or an empty array if none are left.
+Example: [{"chapterNumber": 1, "title": "Prologue", "volume": "Volume 1: The Beginning"}, ...]`,
+  },
+  chapterText: {
+    model: 'gemini-2.5-flash',
+    temperature: 1,
+    targetLength: 2000,
+    prompt: `Write the full content for Chapter {{chapterNumber}}: "{{chapterTitle}}" of the light novel "{{novelTitle}}".
+{{storyContext}}
+Style guide:
+- Write in the style of a professional light novel translation.
+- About {{targetLength}} words.
+- Use dialogue heavily.
+- Use standard Markdown: *italics* for inner thoughts, "---" on its own line for scene breaks.
+- Put system messages on their own line in square brackets, e.g. [Status Window].
+- Footnotes (translator notes) use [^1] references with "[^1]: note" definitions at the end.
+- Do NOT include the chapter title at the beginning, just the story text.`,
+  },
+  chapterNotes: {
+    model: 'gemini-2.5-flash',
+    temperature: 0.3,
+    targetLength: 4,
+    prompt: `You keep the continuity notes for the light novel "{{novelTitle}}".
+{{storyContext}}
+Read Chapter {{chapterNumber}}: "{{chapterTitle}}" below and return:
+- summary: about {{targetLength}} sentences covering the plot events and any change in relationships or status.
+- characters: every character who appears, with a one-sentence description reflecting this chapter.
+- glossary: invented places, skills, items, factions or terms introduced or clarified, with short definitions.
+
+Chapter text:
+{{content}}`,
+  },
+  sceneSummary: {
+    model: 'gemini-2.5-flash',
+    temperature: 0.7,
+    targetLength: 50,
+    prompt: `Describe a single, epic visual scene that represents the climax or summary of this text in {{targetLength}} words:
+
+{{content}}`,
+  },
+  image: {
+    model: 'gemini-2.5-flash-image',
+    temperature: 1,
+    targetLength: 0,
+    prompt: `Anime style illustration, high quality light novel cover art style, cinematic lighting, 8k resolution: {{scene}}`,
+  },
+};
+
+const MAX_TEMPERATURE = 2;
+
+/**
+ * Fills `{{name}}` placeholders. Unknown placeholders are left in place so typos stay visible.
+ */
+export const renderPrompt = (template: string, variables: Record<string, string | number | undefined>): string =>
+  template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => name in variables ? String(variables[name] ?? '') : match)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Takes the valid fields of an untrusted task config, falling back to `base` for the rest
+const sanitizeTaskConfig = (value: unknown, base: AiTaskConfig): AiTaskConfig => {
+  if (typeof value !== 'object' || value === null) return base;
+  const v = value as Partial<Record<keyof AiTaskConfig, unknown>>;
+  return {
+    model: typeof v.model === 'string' && v.model.trim() ? v.model.trim() : base.model,
+    temperature: typeof v.temperature === 'number' && Number.isFinite(v.temperature)
+      ? Math.min(MAX_TEMPERATURE, Math.max(0, v.temperature)) : base.temperature,
+    prompt: typeof v.prompt === 'string' && v.prompt.trim() ? v.prompt : base.prompt,
+    targetLength: typeof v.targetLength === 'number' && Number.isFinite(v.targetLength) && v.targetLength >= 0
+      ? Math.round(v.targetLength) : base.targetLength,
+  };
+};
+
+// Tasks missing from a stored config or preset (e.g. added in a later version) use their defaults
+const sanitizeConfig = (value: unknown, base: AiConfig = DEFAULT_AI_CONFIG): AiConfig => {
+  const source = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const config = {} as AiConfig;
+  AI_TASKS.forEach(task => { config[task] = sanitizeTaskConfig(source[task], base[task]); });
+  return config;
+};
+
+let activeConfig: AiConfig = DEFAULT_AI_CONFIG;
+
+export const getAiConfig = (): AiConfig => activeConfig;
+
+export const getAiTaskConfig = (task: AiTask): AiTaskConfig => activeConfig[task];
+
+/** Loads the stored config so later Gemini calls use it. */
+export const loadAiConfig = async (): Promise<AiConfig> => {
+  activeConfig = sanitizeConfig(await getSetting<unknown>(AI_CONFIG_KEY));
+  return activeConfig;
+};
+
+export const saveAiConfig = async (config: AiConfig): Promise<void> => {
+  const sanitized = sanitizeConfig(config);
+  await saveSetting(AI_CONFIG_KEY, sanitized);
+  activeConfig = sanitized;
+};
+
+/** Serializes a config as a shareable preset file. */
+export const exportAiConfig = (config: AiConfig): Blob =>
+  new Blob([JSON.stringify({ format: PRESET_FORMAT, version: PRESET_VERSION, tasks: config }, null, 2)], { type: 'application/json' });
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads a preset file. Tasks and fields it leaves out keep their values from `base`.
+ * Throws an Error with a short reason if the file isn't a preset.
+ */
+export const parseAiConfigPreset = (text: string, base: AiConfig): AiConfig => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Not a JSON file");
+  }
+  if (!isObject(data) || data.format !== PRESET_FORMAT || !isObject(data.tasks)) {
+    throw new Error("Not an AI config preset");
+  }
+  if (typeof data.version !== 'number' || data.version > PRESET_VERSION) {
+    throw new Error("Preset is from a newer version");
+  }
+  return sanitizeConfig(data.tasks, base);
+};
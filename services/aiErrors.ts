@@ -0,0 +1,109 @@
+import { ApiError, GenerateContentResponse } from "@google/genai";
+
+// --- AI errors ---
+// Everything the Gemini service throws is one of these. The message is the error code, so
+// code that only sees a serialized message (e.g. the persisted download queue) can still
+// tell the failures apart.
+
+export type AiErrorCode = 'API_KEY_MISSING' | 'QUOTA_EXCEEDED' | 'SAFETY_BLOCKED' | 'NETWORK_ERROR' | 'MALFORMED_RESPONSE';
+
+export class AiError extends Error {
+  readonly code: AiErrorCode;
+  readonly retryable: boolean;
+  readonly detail?: string;
+
+  constructor(code: AiErrorCode, retryable: boolean, detail?: string) {
+    super(code);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+    this.detail = detail;
+  }
+}
+
+/** No API key is configured, or the configured one was rejected. */
+export class ApiKeyMissingError extends AiError {
+  constructor(detail?: string) { super('API_KEY_MISSING', false, detail); }
+}
+
+/** Rate limit or quota hit (HTTP 429). `retryAfterMs` is set when the API says how long to wait. */
+export class QuotaExceededError extends AiError {
+  readonly retryAfterMs?: number;
+  constructor(detail?: string, retryAfterMs?: number) {
+    super('QUOTA_EXCEEDED', true, detail);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The prompt or the answer was blocked by a safety filter. */
+export class SafetyBlockedError extends AiError {
+  constructor(detail?: string) { super('SAFETY_BLOCKED', false, detail); }
+}
+
+/** The request never got a response (offline, DNS, server unavailable). */
+export class NetworkError extends AiError {
+  constructor(detail?: string) { super('NETWORK_ERROR', true, detail); }
+}
+
+/** The model answered, but not in the declared shape (or not at all). */
+export class MalformedResponseError extends AiError {
+  constructor(detail?: string) { super('MALFORMED_RESPONSE', true, detail); }
+}
+
+/** Builds the error class for a code, e.g. when replaying a failure recorded in a fixture. */
+export const createAiError = (code: AiErrorCode, detail?: string): AiError => {
+  switch (code) {
+    case 'API_KEY_MISSING': return new ApiKeyMissingError(detail);
+    case 'QUOTA_EXCEEDED': return new QuotaExceededError(detail);
+    case 'SAFETY_BLOCKED': return new SafetyBlockedError(detail);
+    case 'NETWORK_ERROR': return new NetworkError(detail);
+    case 'MALFORMED_RESPONSE': return new MalformedResponseError(detail);
+  }
+};
+
+export const AI_ERROR_CODES: AiErrorCode[] = ['API_KEY_MISSING', 'QUOTA_EXCEEDED', 'SAFETY_BLOCKED', 'NETWORK_ERROR', 'MALFORMED_RESPONSE'];
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY']);
+
+/**
+ * Throws a SafetyBlockedError if Gemini refused the prompt or stopped the answer for safety.
+ */
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError(`Response stopped: ${finishReason}`);
+  }
+};
+
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay)?["':\s]+(?:in\s+)?(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Classifies anything thrown while talking to Gemini. Abort errors are passed through untouched.
+ */
+export const toAiError = (error: unknown): Error => {
+  if (error instanceof AiError) return error;
+  if (error instanceof Error && error.name === 'AbortError') return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    if (error.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+      return new QuotaExceededError(message, parseRetryDelay(message));
+    }
+    if (error.status === 401 || error.status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+      return new ApiKeyMissingError(message);
+    }
+    if (error.status >= 500) return new NetworkError(message);
+    return new MalformedResponseError(message);
+  }
+  // fetch() rejects with a TypeError when the request can't be made at all
+  if (error instanceof TypeError || /network|fetch|ECONN|ETIMEDOUT/i.test(message)) {
+    return new NetworkError(message);
+  }
+  if (error instanceof SyntaxError) return new MalformedResponseError(message);
+  return error instanceof Error ? error : new Error(message);
+};
@@ -0,0 +1,135 @@
+import { AiBackend, ChapterMetadata, ChapterNotes, Novel } from "../types";
+import { AiErrorCode, AI_ERROR_CODES, createAiError } from "./aiErrors";
+import { nextChapterNumber } from "./chapterListService";
+
+// --- AI fixtures ---
+// Canned responses for the mock backend, keyed per call. A fixture can be written by hand to
+// script error paths (empty search results, short chapters, missing images, API errors) or
+// recorded from a real Gemini session and replayed offline.
+
+const FIXTURE_FORMAT = 'ranobe-ai-fixture';
+const FIXTURE_VERSION = 1;
+
+interface FixtureResponses {
+  search: Novel[];
+  chapterList: ChapterMetadata[];
+  chapterText: string;
+  chapterNotes: ChapterNotes;
+  image: string | null; // null: the model answered without an image
+}
+
+export type AiOperation = keyof FixtureResponses;
+
+export const AI_OPERATIONS: AiOperation[] = ['search', 'chapterList', 'chapterText', 'chapterNotes', 'image'];
+
+export type AiFixture = { [K in AiOperation]?: Record<string, FixtureResponses[K]> } & {
+  errors?: Partial<Record<AiOperation, AiErrorCode>>; // every call of the operation fails with this error
+};
+
+// Entry used for any call of an operation that has no entry of its own
+export const ANY_KEY = '*';
+
+/** Short, stable hash (FNV-1a) used for fixture keys and to seed generated content. */
+export const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** How each call is keyed inside a fixture. */
+export const fixtureKeys = {
+  search: (query: string) => query.trim().toLowerCase(),
+  // Later batches of a growing chapter list are keyed by the chapter they start at
+  chapterList: (novelTitle: string, startChapter = 1) => startChapter > 1 ? `${novelTitle}@${startChapter}` : novelTitle,
+  chapter: (novelTitle: string, chapterNumber: number) => `${novelTitle}#${chapterNumber}`,
+  image: (chapterContent: string) => hashText(chapterContent).toString(16),
+};
+
+/**
+ * The fixture's response for a call, or undefined when it has none.
+ * Throws the scripted AiError if the fixture fails this operation.
+ */
+export const lookupFixture = <K extends AiOperation>(fixture: AiFixture | null, operation: K, key: string): FixtureResponses[K] | undefined => {
+  if (!fixture) return undefined;
+  const code = fixture.errors?.[operation];
+  if (code) throw createAiError(code, `Scripted by fixture for ${operation}`);
+  const entries = fixture[operation] as Record<string, FixtureResponses[K]> | undefined;
+  if (!entries) return undefined;
+  if (Object.prototype.hasOwnProperty.call(entries, key)) return entries[key];
+  return Object.prototype.hasOwnProperty.call(entries, ANY_KEY) ? entries[ANY_KEY] : undefined;
+};
+
+export const countFixtureEntries = (fixture: AiFixture): number =>
+  AI_OPERATIONS.reduce((sum, op) => sum + Object.keys(fixture[op] || {}).length, 0);
+
+export const serializeAiFixture = (fixture: AiFixture): Blob =>
+  new Blob([JSON.stringify({ format: FIXTURE_FORMAT, version: FIXTURE_VERSION, ...fixture }, null, 2)], { type: 'application/json' });
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isOperation = (value: string): value is AiOperation => (AI_OPERATIONS as string[]).includes(value);
+
+const isErrorCode = (value: unknown): value is AiErrorCode => (AI_ERROR_CODES as unknown[]).includes(value);
+
+/**
+ * Reads a fixture file. Only the overall shape is checked; individual responses are trusted,
+ * so a fixture can deliberately contain output the app has to reject.
+ */
+export const parseAiFixture = (text: string): AiFixture => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Not a JSON file");
+  }
+  if (!isObject(data) || data.format !== FIXTURE_FORMAT) throw new Error("Not an AI fixture");
+  if (typeof data.version !== 'number' || data.version > FIXTURE_VERSION) throw new Error("Fixture is from a newer version");
+
+  const fixture: AiFixture = {};
+  for (const op of AI_OPERATIONS) {
+    const section = data[op];
+    if (section === undefined) continue;
+    if (!isObject(section) || Array.isArray(section)) throw new Error(`Invalid "${op}" section`);
+    (fixture as Record<string, unknown>)[op] = section;
+  }
+  if (data.errors !== undefined) {
+    if (!isObject(data.errors)) throw new Error(`Invalid "errors" section`);
+    const errors: Partial<Record<AiOperation, AiErrorCode>> = {};
+    for (const [op, code] of Object.entries(data.errors)) {
+      if (!isOperation(op) || !isErrorCode(code)) throw new Error(`Invalid error "${op}: ${code}"`);
+      errors[op] = code;
+    }
+    fixture.errors = errors;
+  }
+  return fixture;
+};
+
+/**
+ * Wraps a backend so every successful response is also written into `fixture`.
+ */
+export const recordingBackend = (backend: AiBackend, fixture: AiFixture): AiBackend => {
+  const record = <K extends AiOperation>(operation: K, key: string, value: FixtureResponses[K]) => {
+    (fixture as Record<string, unknown>)[operation] = { ...(fixture[operation] || {}), [key]: value };
+    return value;
+  };
+
+  return {
+    searchNovels: async (query) =>
+      record('search', fixtureKeys.search(query), await backend.searchNovels(query)),
+    getChapterList: async (novel, known) =>
+      record('chapterList', fixtureKeys.chapterList(novel.title, nextChapterNumber(known)), await backend.getChapterList(novel, known)),
+    downloadChapterContent: async (novelTitle, chapterNumber, chapterTitle, storyContext) =>
+      record('chapterText', fixtureKeys.chapter(novelTitle, chapterNumber), await backend.downloadChapterContent(novelTitle, chapterNumber, chapterTitle, storyContext)),
+    streamChapterContent: async function* (novelTitle, chapterNumber, chapterTitle, storyContext, signal) {
+      const text = yield* backend.streamChapterContent(novelTitle, chapterNumber, chapterTitle, storyContext, signal);
+      return record('chapterText', fixtureKeys.chapter(novelTitle, chapterNumber), text);
+    },
+    summarizeChapter: async (novelTitle, chapterNumber, chapterTitle, content, storyContext) =>
+      record('chapterNotes', fixtureKeys.chapter(novelTitle, chapterNumber), await backend.summarizeChapter(novelTitle, chapterNumber, chapterTitle, content, storyContext)),
+    generateChapterImage: async (chapterContent) =>
+      record('image', fixtureKeys.image(chapterContent), await backend.generateChapterImage(chapterContent)) as string,
+  };
+};
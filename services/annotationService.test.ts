@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { blockText, createBookmark, createHighlight, highlightRanges, locateHighlight, sortAnnotations } from './annotationService';
+import { parseMarkdown } from './markdownService';
+
+const CHAPTER = [
+  'The gate opened at *dawn*.[^1]',
+  '',
+  '> Run.',
+  '> Now.',
+  '',
+  '***',
+  '',
+  'Jin-Woo did not run.',
+  '',
+  '[^1]: Local time.',
+].join('\n');
+
+const doc = parseMarkdown(CHAPTER);
+
+describe('blockText', () => {
+  it('is the rendered text without markup or footnote markers', () => {
+    expect(doc.blocks.map(blockText)).toEqual(['The gate opened at dawn.', 'Run.\nNow.', '', 'Jin-Woo did not run.']);
+  });
+});
+
+describe('locateHighlight', () => {
+  it('uses the stored anchors while the text there matches', () => {
+    const highlight = createHighlight('n', 1, { paragraph: 0, offset: 4 }, { paragraph: 0, offset: 8 }, 'gate', 'green');
+    expect(locateHighlight(highlight, doc)).toEqual([{ paragraph: 0, start: 4, end: 8 }]);
+  });
+
+  it('spans paragraphs, skipping scene breaks', () => {
+    const highlight = createHighlight('n', 1, { paragraph: 2, offset: 5 }, { paragraph: 7, offset: 7 }, 'Now.\n\nJin-Woo', 'yellow');
+    expect(locateHighlight(highlight, doc)).toEqual([
+      { paragraph: 2, start: 5, end: 9 },
+      { paragraph: 7, start: 0, end: 7 },
+    ]);
+  });
+
+  it('finds the text again after the chapter changed', () => {
+    const edited = parseMarkdown(['A new first line.', '', CHAPTER].join('\n'));
+    const highlight = createHighlight('n', 1, { paragraph: 7, offset: 0 }, { paragraph: 7, offset: 7 }, 'Jin-Woo', 'pink');
+    expect(locateHighlight(highlight, edited)).toEqual([{ paragraph: 9, start: 0, end: 7 }]);
+  });
+
+  it('gives up when the text is gone', () => {
+    const highlight = createHighlight('n', 1, { paragraph: 0, offset: 0 }, { paragraph: 0, offset: 5 }, 'Igris', 'pink');
+    expect(locateHighlight(highlight, doc)).toBeNull();
+    expect(highlightRanges([highlight], doc)).toEqual([]);
+  });
+});
+
+describe('createBookmark', () => {
+  it('points at the paragraph and keeps its opening', () => {
+    const bookmark = createBookmark('n', 1, 7, doc);
+    expect(bookmark).toMatchObject({ kind: 'bookmark', start: { paragraph: 7, offset: 0 }, text: 'Jin-Woo did not run.' });
+    expect(bookmark.color).toBeUndefined();
+  });
+});
+
+describe('sortAnnotations', () => {
+  it('orders by chapter, then position', () => {
+    const a = createHighlight('n', 2, { paragraph: 0, offset: 0 }, { paragraph: 0, offset: 1 }, 'x', 'blue');
+    const b = createBookmark('n', 1, 7, doc);
+    const c = createHighlight('n', 1, { paragraph: 0, offset: 4 }, { paragraph: 0, offset: 8 }, 'gate', 'blue');
+    expect(sortAnnotations([a, b, c]).map(x => x.id)).toEqual([c.id, b.id, a.id]);
+  });
+});
@@ -0,0 +1,99 @@
+import { Annotation, HighlightColor, TextAnchor } from "../types";
+import { MarkdownBlock, MarkdownDocument, inlineToText } from "./markdownService";
+
+// --- Annotations ---
+// Bookmarks and highlights are anchored to a paragraph (its source line) and character offsets
+// into the paragraph's text, so font, size and layout changes don't move them. Highlights also
+// keep their text: if the chapter changes underneath them, they are found again by that text.
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+// Length of the paragraph opening stored with a bookmark
+const BOOKMARK_EXCERPT_LENGTH = 120;
+
+/** A highlight's part within one paragraph, as rendered by MarkdownContent. */
+export interface HighlightRange {
+  id: string;
+  paragraph: number;
+  start: number;
+  end: number;
+  color: HighlightColor;
+}
+
+/**
+ * Text a block shows, which annotation offsets count in. Footnote markers don't count and the
+ * paragraphs of a quote are separated by a line break, so words don't merge across them; the
+ * Reader counts that line break too.
+ */
+export const blockText = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case 'sceneBreak': return '';
+    case 'blockquote': return block.children.map(inlineToText).join('\n');
+    default: return inlineToText(block.children);
+  }
+};
+
+const newId = () => `ann_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createHighlight = (
+  novelId: string, chapterNumber: number, start: TextAnchor, end: TextAnchor, text: string, color: HighlightColor, note?: string
+): Annotation => ({
+  id: newId(), novelId, chapterNumber, kind: 'highlight', start, end, text, color, ...(note ? { note } : {}), createdAt: Date.now(),
+});
+
+export const createBookmark = (novelId: string, chapterNumber: number, paragraph: number, document: MarkdownDocument): Annotation => {
+  const block = document.blocks.find(b => b.line === paragraph);
+  return {
+    id: newId(),
+    novelId,
+    chapterNumber,
+    kind: 'bookmark',
+    start: { paragraph, offset: 0 },
+    text: block ? blockText(block).slice(0, BOOKMARK_EXCERPT_LENGTH) : '',
+    createdAt: Date.now(),
+  };
+};
+
+const squash = (text: string) => text.replace(/\s+/g, '');
+
+/**
+ * Where a highlight is in the chapter: per-paragraph ranges, or null if its text can't be found
+ * any more. The stored anchors are used while the text there still matches; otherwise the text
+ * is searched for, starting at the paragraph it used to be in.
+ */
+export const locateHighlight = (annotation: Annotation, document: MarkdownDocument): Omit<HighlightRange, 'id' | 'color'>[] | null => {
+  const blocks = document.blocks.filter(b => b.type !== 'sceneBreak');
+  const { start, end = start } = annotation;
+
+  const startIndex = blocks.findIndex(b => b.line === start.paragraph);
+  const endIndex = blocks.findIndex(b => b.line === end.paragraph);
+  if (startIndex !== -1 && endIndex >= startIndex) {
+    const ranges = blocks.slice(startIndex, endIndex + 1).map((block, i, span) => ({
+      paragraph: block.line,
+      start: i === 0 ? start.offset : 0,
+      end: i === span.length - 1 ? end.offset : blockText(block).length,
+    })).filter(r => r.end > r.start);
+    const covered = ranges.map(r => blockText(blocks.find(b => b.line === r.paragraph)!).slice(r.start, r.end)).join('');
+    if (ranges.length > 0 && squash(covered) === squash(annotation.text)) return ranges;
+  }
+
+  const needle = annotation.text.trim();
+  if (!needle) return null;
+  const nearest = [...blocks].sort((a, b) => Math.abs(a.line - start.paragraph) - Math.abs(b.line - start.paragraph));
+  for (const block of nearest) {
+    const index = blockText(block).indexOf(needle);
+    if (index !== -1) return [{ paragraph: block.line, start: index, end: index + needle.length }];
+  }
+  return null;
+};
+
+/** Rendered ranges of all highlights in a chapter; highlights that can't be found are left out. */
+export const highlightRanges = (annotations: Annotation[], document: MarkdownDocument): HighlightRange[] =>
+  annotations
+    .filter(a => a.kind === 'highlight')
+    .flatMap(a => (locateHighlight(a, document) || []).map(range => ({ ...range, id: a.id, color: a.color || 'yellow' })));
+
+/** Annotations in reading order: by chapter, then position in the chapter. */
+export const sortAnnotations = (annotations: Annotation[]): Annotation[] =>
+  [...annotations].sort((a, b) =>
+    a.chapterNumber - b.chapterNumber || a.start.paragraph - b.start.paragraph || a.start.offset - b.start.offset);
@@ -0,0 +1,31 @@
+import { getApiKey, saveApiKey } from "./storageService";
+import { setApiKey, validateApiKey } from "./geminiService";
+import { ApiKeyMissingError } from "./aiErrors";
+
+// --- API key ---
+// Each user brings their own Gemini key. It is stored on the device and handed to the
+// Gemini client, which is rebuilt whenever it changes.
+
+/** Loads the stored key into the Gemini client. Resolves to whether one is configured. */
+export const loadApiKey = async (): Promise<boolean> => {
+  const key = await getApiKey();
+  setApiKey(key);
+  return !!key;
+};
+
+/**
+ * Validates a key with a test call, then stores it and switches the client over to it.
+ * Throws an AiError (ApiKeyMissingError if the key was rejected) and keeps the old key on failure.
+ */
+export const updateApiKey = async (key: string): Promise<void> => {
+  const trimmed = key.trim();
+  if (!trimmed) throw new ApiKeyMissingError();
+  await validateApiKey(trimmed);
+  await saveApiKey(trimmed);
+  setApiKey(trimmed);
+};
+
+export const removeApiKey = async (): Promise<void> => {
+  await saveApiKey(null);
+  setApiKey(null);
+};
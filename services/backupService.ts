@@ -0,0 +1,228 @@
+import JSZip from "jszip";
+import { LibraryItem, Novel } from "../types";
+import { readSnapshot, writeSnapshot, getLibrary, chapterKey, StorageSnapshot, StoredImage } from "./storageService";
+
+// --- Library backup & restore ---
+// A backup is a zip with a versioned `backup.json` (library, chapter text, reading positions,
+// story bibles, reading history, annotations, settings) and the generated images stored as binary files next to it.
+
+export const BACKUP_FORMAT = 'ranobe-backup';
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'backup.json';
+
+interface BackupImageEntry {
+  novelId: string;
+  chapterNumber: number;
+  mimeType: string;
+  file: string;
+  savedAt: number;
+}
+
+interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: number;
+  library: LibraryItem[];
+  chapters: StorageSnapshot['chapters'];
+  images: BackupImageEntry[];
+  positions: StorageSnapshot['positions'];
+  bibles?: StorageSnapshot['bibles']; // absent in backups made before story bibles existed
+  sessions?: StorageSnapshot['sessions']; // absent in backups made before reading history existed
+  annotations?: StorageSnapshot['annotations']; // absent in backups made before annotations existed
+  settings: Record<string, unknown>;
+  featuredCache: Novel[] | null;
+}
+
+export interface ParsedBackup {
+  version: number;
+  createdAt: number;
+  snapshot: StorageSnapshot;
+  featuredCache: Novel[] | null;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/** What to do when a novel `id` exists both locally and in the backup (merge mode only). */
+export type ConflictPolicy = 'keep-local' | 'use-backup';
+
+/**
+ * Packs the whole offline state into a single downloadable archive.
+ */
+export const createBackup = async (): Promise<Blob> => {
+  const snapshot = await readSnapshot();
+  const zip = new JSZip();
+
+  const images: BackupImageEntry[] = snapshot.images.map(img => {
+    const file = `images/${img.key}`;
+    zip.file(file, img.blob);
+    return { novelId: img.novelId, chapterNumber: img.chapterNumber, mimeType: img.blob.type, file, savedAt: img.savedAt };
+  });
+
+  let featuredCache: Novel[] | null = null;
+  try {
+    const saved = localStorage.getItem('featured_cache');
+    if (saved) featuredCache = JSON.parse(saved);
+  } catch (e) { console.error(e); }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    library: snapshot.novels,
+    chapters: snapshot.chapters,
+    images,
+    positions: snapshot.positions,
+    bibles: snapshot.bibles,
+    sessions: snapshot.sessions,
+    annotations: snapshot.annotations,
+    settings: snapshot.settings,
+    featuredCache,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const validateManifest = (manifest: unknown): BackupManifest => {
+  if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT) {
+    throw new Error("Not a Ranobe backup file.");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version < 1) {
+    throw new Error("Backup has no valid format version.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${manifest.version} is newer than this app supports (${BACKUP_VERSION}).`);
+  }
+
+  const { library, chapters, images, positions, bibles, sessions, annotations, settings } = manifest;
+  if (!Array.isArray(library) || !library.every(n => isObject(n) && typeof n.id === 'string' && typeof n.title === 'string' && Array.isArray(n.chapters))) {
+    throw new Error("Backup library is malformed.");
+  }
+  if (!Array.isArray(chapters) || !chapters.every(c => isObject(c) && typeof c.novelId === 'string' && typeof c.chapterNumber === 'number' && typeof c.content === 'string')) {
+    throw new Error("Backup chapters are malformed.");
+  }
+  if (!Array.isArray(images) || !images.every(i => isObject(i) && typeof i.novelId === 'string' && typeof i.chapterNumber === 'number' && typeof i.file === 'string')) {
+    throw new Error("Backup images are malformed.");
+  }
+  if (!Array.isArray(positions) || !positions.every(p => isObject(p) && typeof p.novelId === 'string' && typeof p.chapterNumber === 'number')) {
+    throw new Error("Backup reading positions are malformed.");
+  }
+  if (bibles !== undefined && (!Array.isArray(bibles) || !bibles.every(b => isObject(b) && typeof b.novelId === 'string' && Array.isArray(b.summaries) && Array.isArray(b.characters) && Array.isArray(b.glossary)))) {
+    throw new Error("Backup story bibles are malformed.");
+  }
+  if (sessions !== undefined && (!Array.isArray(sessions) || !sessions.every(s => isObject(s) && typeof s.id === 'string' && typeof s.novelId === 'string' && typeof s.startedAt === 'number' && typeof s.endedAt === 'number'))) {
+    throw new Error("Backup reading history is malformed.");
+  }
+  if (annotations !== undefined && (!Array.isArray(annotations) || !annotations.every(a => isObject(a) && typeof a.id === 'string' && typeof a.novelId === 'string' && typeof a.chapterNumber === 'number' && isObject(a.start)))) {
+    throw new Error("Backup annotations are malformed.");
+  }
+  if (settings !== undefined && !isObject(settings)) {
+    throw new Error("Backup settings are malformed.");
+  }
+  // Every field read on restore was checked above
+  return manifest as unknown as BackupManifest;
+};
+
+/**
+ * Reads and validates a backup archive without touching any stored data.
+ */
+export const readBackup = async (file: Blob): Promise<ParsedBackup> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error("Not a Ranobe backup file.");
+  }
+  const manifestEntry = zip.file(MANIFEST_FILE);
+  if (!manifestEntry) throw new Error("Not a Ranobe backup file.");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestEntry.async('string'));
+  } catch (e) {
+    throw new Error("Backup manifest is corrupted.");
+  }
+  const manifest = validateManifest(raw);
+
+  const images: StoredImage[] = [];
+  for (const entry of manifest.images) {
+    const imageFile = zip.file(entry.file);
+    if (!imageFile) throw new Error(`Backup is missing ${entry.file}.`);
+    const data = await imageFile.async('arraybuffer');
+    images.push({
+      key: chapterKey(entry.novelId, entry.chapterNumber),
+      novelId: entry.novelId,
+      chapterNumber: entry.chapterNumber,
+      blob: new Blob([data], { type: entry.mimeType || 'image/png' }),
+      savedAt: entry.savedAt || Date.now(),
+    });
+  }
+
+  return {
+    version: manifest.version,
+    createdAt: manifest.createdAt,
+    featuredCache: Array.isArray(manifest.featuredCache) ? manifest.featuredCache : null,
+    snapshot: {
+      novels: manifest.library,
+      // Keys are rebuilt rather than trusted so records always line up with chapterKey()
+      chapters: manifest.chapters.map(c => ({ ...c, key: chapterKey(c.novelId, c.chapterNumber) })),
+      images,
+      positions: manifest.positions.map(p => ({ ...p, key: chapterKey(p.novelId, p.chapterNumber) })),
+      bibles: manifest.bibles || [],
+      sessions: manifest.sessions || [],
+      annotations: manifest.annotations || [],
+      settings: manifest.settings || {},
+    },
+  };
+};
+
+/**
+ * Novel ids present both in the backup and in the current library.
+ */
+export const findRestoreConflicts = (backup: ParsedBackup, library: LibraryItem[]): string[] => {
+  const local = new Set(library.map(n => n.id));
+  return backup.snapshot.novels.filter(n => local.has(n.id)).map(n => n.id);
+};
+
+/**
+ * Applies a validated backup and returns the resulting library.
+ */
+export const restoreBackup = async (backup: ParsedBackup, mode: RestoreMode, conflictPolicy: ConflictPolicy = 'keep-local'): Promise<LibraryItem[]> => {
+  let snapshot = backup.snapshot;
+  let cleared: string[] = [];
+
+  if (mode === 'merge') {
+    // A merge keeps this device's reader settings; they are only restored by a full replace
+    snapshot = { ...snapshot, settings: {} };
+    const conflicts = new Set(findRestoreConflicts(backup, await getLibrary()));
+    if (conflictPolicy === 'keep-local') {
+      const keep = (record: { novelId: string }) => !conflicts.has(record.novelId);
+      snapshot = {
+        novels: snapshot.novels.filter(n => !conflicts.has(n.id)),
+        chapters: snapshot.chapters.filter(keep),
+        images: snapshot.images.filter(keep),
+        positions: snapshot.positions.filter(keep),
+        bibles: snapshot.bibles.filter(keep),
+        sessions: snapshot.sessions.filter(keep),
+        annotations: snapshot.annotations.filter(keep),
+        settings: {},
+      };
+    } else {
+      // The backup copy fully replaces the local one, including chapters it doesn't have
+      cleared = [...conflicts];
+    }
+  }
+
+  await writeSnapshot(snapshot, mode === 'replace', cleared);
+
+  if (backup.featuredCache && (mode === 'replace' || !localStorage.getItem('featured_cache'))) {
+    try {
+      localStorage.setItem('featured_cache', JSON.stringify(backup.featuredCache));
+    } catch (e) { console.error(e); }
+  }
+
+  return getLibrary();
+};
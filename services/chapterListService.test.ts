@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { appendChapters, groupByVolume, isNearListEnd, nextChapterNumber } from './chapterListService';
+import { ChapterMetadata } from '../types';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const chapter = (n: number, volume?: string, id = String(n)) =>
+  makeChapter('Novel', n, { id, ...(volume ? { volume } : {}) });
+
+const novelWith = (chapters: ChapterMetadata[]) => makeNovel('novel_1', { title: 'Novel', chapters });
+
+describe('appendChapters', () => {
+  it('appends new chapters in order and updates the total', () => {
+    const novel = novelWith([chapter(1), chapter(2)]);
+
+    const extended = appendChapters(novel, [chapter(4), chapter(3)]);
+
+    expect(extended.chapters.map(c => c.chapterNumber)).toEqual([1, 2, 3, 4]);
+    expect(extended.totalChapters).toBe(4);
+    expect(extended.hasMoreChapters).toBe(true);
+  });
+
+  it('keeps the existing entry (and id) for chapters it already has', () => {
+    const novel = novelWith([chapter(1, undefined, 'original-1'), chapter(2, undefined, 'original-2')]);
+
+    const extended = appendChapters(novel, [{ ...chapter(2), title: 'Renamed' }, chapter(3), chapter(3)]);
+
+    expect(extended.chapters.map(c => c.id)).toEqual(['original-1', 'original-2', '3']);
+    expect(extended.chapters[1].title).toBe('Chapter 2');
+  });
+
+  it('marks the list complete when a batch adds nothing', () => {
+    const novel = novelWith([chapter(1)]);
+
+    const extended = appendChapters(novel, [chapter(1)]);
+
+    expect(extended.chapters).toBe(novel.chapters);
+    expect(extended.hasMoreChapters).toBe(false);
+    expect(appendChapters(novel, []).hasMoreChapters).toBe(false);
+  });
+});
+
+describe('isNearListEnd', () => {
+  const novel = novelWith(Array.from({ length: 10 }, (_, i) => chapter(i + 1)));
+
+  it('is true for the last few known chapters only', () => {
+    expect(isNearListEnd(novel, novel.chapters[5])).toBe(false);
+    expect(isNearListEnd(novel, novel.chapters[6])).toBe(true);
+    expect(isNearListEnd(novel, novel.chapters[9])).toBe(true);
+  });
+
+  it('is false for chapters that are not in the list', () => {
+    expect(isNearListEnd(novel, chapter(11))).toBe(false);
+  });
+});
+
+describe('nextChapterNumber', () => {
+  it('continues after the highest known number', () => {
+    expect(nextChapterNumber()).toBe(1);
+    expect(nextChapterNumber([chapter(3), chapter(1)])).toBe(4);
+  });
+});
+
+describe('groupByVolume', () => {
+  it('groups consecutive chapters that share a volume', () => {
+    const groups = groupByVolume([chapter(1), chapter(2, 'Volume 1'), chapter(3, 'Volume 1'), chapter(4, 'Volume 2')]);
+
+    expect(groups.map(g => [g.volume, g.chapters.map(c => c.chapterNumber)])).toEqual([
+      [undefined, [1]],
+      ['Volume 1', [2, 3]],
+      ['Volume 2', [4]],
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { ChapterMetadata, LibraryItem } from "../types";
+
+// --- Chapter lists ---
+// A novel's chapter list grows in batches: when the reader gets close to the last known chapter,
+// the next batch is fetched and appended. Known entries are never replaced, so chapter ids
+// (which reading progress points at) stay stable.
+
+// How close to the last known chapter the reader gets before the next batch is fetched
+export const CHAPTER_LIST_LOOKAHEAD = 3;
+
+/** First chapter number of the batch that follows `known`. */
+export const nextChapterNumber = (known: ChapterMetadata[] = []): number =>
+  known.reduce((max, ch) => Math.max(max, ch.chapterNumber), 0) + 1;
+
+/** False once a fetch came back empty. Entries saved before lists could grow count as open. */
+export const mayHaveMoreChapters = (novel: LibraryItem): boolean => novel.hasMoreChapters !== false;
+
+/** True when `chapter` is within CHAPTER_LIST_LOOKAHEAD chapters of the end of the known list. */
+export const isNearListEnd = (novel: LibraryItem, chapter: ChapterMetadata): boolean => {
+  const index = novel.chapters.findIndex(c => c.id === chapter.id);
+  return index !== -1 && index >= novel.chapters.length - 1 - CHAPTER_LIST_LOOKAHEAD;
+};
+
+/**
+ * Adds a fetched batch to the novel's chapters, in reading order. Numbers the novel already has
+ * keep their existing entry; a batch with nothing new marks the list as complete.
+ */
+export const appendChapters = (novel: LibraryItem, batch: ChapterMetadata[]): LibraryItem => {
+  const known = new Set(novel.chapters.map(c => c.chapterNumber));
+  const added = batch.filter(c => !known.has(c.chapterNumber) && known.add(c.chapterNumber));
+  const chapters = added.length > 0
+    ? [...novel.chapters, ...added].sort((a, b) => a.chapterNumber - b.chapterNumber)
+    : novel.chapters;
+  return { ...novel, chapters, totalChapters: chapters.length, hasMoreChapters: added.length > 0 };
+};
+
+/**
+ * Splits chapters into runs that share a volume, for grouped chapter indexes.
+ * Chapters without a volume form runs with `volume` undefined.
+ */
+export const groupByVolume = (chapters: ChapterMetadata[]): { volume?: string; chapters: ChapterMetadata[] }[] =>
+  chapters.reduce<{ volume?: string; chapters: ChapterMetadata[] }[]>((groups, ch) => {
+    const last = groups[groups.length - 1];
+    if (last && last.volume === ch.volume) last.chapters.push(ch);
+    else groups.push({ volume: ch.volume, chapters: [ch] });
+    return groups;
+  }, []);
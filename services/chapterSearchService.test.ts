@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { searchChapterContent, searchChapters } from './chapterSearchService';
+import { parseQuery } from './textIndex';
+import { deleteNovelData, findChaptersWithTerms, indexStoredChapters, saveChapterContent, saveChapterContents } from './storageService';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const novel = (id: string) => makeNovel(id, { chapters: [1, 2, 3].map(n => makeChapter(id, n)) });
+
+describe('searchChapterContent', () => {
+  const content = [
+    'The shadow army waited.',
+    '',
+    'Igris knelt before the *Shadow Army*.',
+    '',
+    'Nothing else happened.',
+  ].join('\n');
+
+  it('returns matching paragraphs with their source line and match ranges', () => {
+    expect(searchChapterContent(content, parseQuery('"shadow army"'))).toEqual([
+      { paragraph: 0, ranges: [{ start: 4, end: 15 }], snippet: 'The shadow army waited.', snippetRanges: [{ start: 4, end: 15 }] },
+      { paragraph: 2, ranges: [{ start: 23, end: 34 }], snippet: 'Igris knelt before the Shadow Army.', snippetRanges: [{ start: 23, end: 34 }] },
+    ]);
+  });
+
+  it('needs every phrase somewhere in the chapter', () => {
+    expect(searchChapterContent(content, parseQuery('igris waited')).map(h => h.paragraph)).toEqual([0, 2]);
+    expect(searchChapterContent(content, parseQuery('igris beru'))).toEqual([]);
+    expect(searchChapterContent(content, parseQuery('"army waited igris"'))).toEqual([]);
+  });
+
+  it('trims long paragraphs to a snippet around the first match', () => {
+    const long = `${'word '.repeat(40)}Igris ${'word '.repeat(40)}`.trim();
+    const [hit] = searchChapterContent(long, parseQuery('igris'));
+    expect(hit.snippet.startsWith('…word')).toBe(true);
+    expect(hit.snippet.endsWith('word…')).toBe(true);
+    const [range] = hit.snippetRanges;
+    expect(hit.snippet.slice(range.start, range.end)).toBe('Igris');
+  });
+});
+
+describe('searchChapters', () => {
+  it('groups hits by novel and chapter using the index', async () => {
+    await saveChapterContents('search-a', [
+      { chapterNumber: 2, content: 'Beru bowed to the shadow monarch.' },
+      { chapterNumber: 1, content: 'The shadow monarch woke.' },
+    ]);
+    await saveChapterContent('search-b', 1, 'A different shadow. No monarch here.');
+
+    const results = await searchChapters('"shadow monarch"', [novel('search-b'), novel('search-a')]);
+    expect(results.map(r => [r.novel.id, r.chapters.map(c => c.chapterNumber)])).toEqual([['search-a', [1, 2]]]);
+    expect(results[0].chapters[0].title).toBe('Chapter 1');
+  });
+
+  it('indexes chapters as they are saved and drops them with the novel', async () => {
+    await saveChapterContent('search-c', 1, 'Thomas Andre arrived.');
+    expect(await findChaptersWithTerms(['thomas', 'andre'])).toEqual([{ novelId: 'search-c', chapterNumber: 1 }]);
+
+    await saveChapterContent('search-c', 1, 'Someone else arrived.');
+    expect(await findChaptersWithTerms(['thomas'])).toEqual([]);
+
+    await deleteNovelData('search-c');
+    expect(await findChaptersWithTerms(['arrived'])).toEqual([]);
+    expect(await indexStoredChapters()).toBe(0);
+  });
+});
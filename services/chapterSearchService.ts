@@ -0,0 +1,119 @@
+import { LibraryItem } from "../types";
+import { parseMarkdown } from "./markdownService";
+import { blockText } from "./annotationService";
+import { findPhrase, parseQuery, tokenSpans } from "./textIndex";
+import { findChaptersWithTerms, getChapterContent } from "./storageService";
+
+// --- Full-text search over downloaded chapters ---
+// The index (see storageService) narrows the search to chapters containing every query word;
+// those chapters are then scanned paragraph by paragraph for the exact phrases.
+
+// Characters of context on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+const MAX_HITS_PER_CHAPTER = 5;
+const MAX_CHAPTERS = 100;
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface ChapterSearchHit {
+  /** Paragraph (source line) the match is in, as used by reading positions. */
+  paragraph: number;
+  snippet: string;
+  /** Matches within the snippet. */
+  snippetRanges: MatchRange[];
+  /** Matches within the paragraph's text, for highlighting in the Reader. */
+  ranges: MatchRange[];
+}
+
+export interface ChapterSearchResult {
+  chapterNumber: number;
+  title: string;
+  hits: ChapterSearchHit[];
+}
+
+export interface NovelSearchResult {
+  novel: LibraryItem;
+  chapters: ChapterSearchResult[];
+}
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges].sort((a, b) => a.start - b.start).reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+    return merged;
+  }, []);
+
+const makeSnippet = (text: string, ranges: MatchRange[]): Pick<ChapterSearchHit, 'snippet' | 'snippetRanges'> => {
+  let from = Math.max(0, ranges[0].start - SNIPPET_CONTEXT);
+  let to = Math.min(text.length, ranges[0].end + SNIPPET_CONTEXT);
+  // Don't cut words in half
+  const wordStart = text.indexOf(' ', from) + 1;
+  if (from > 0 && wordStart > 0 && wordStart <= ranges[0].start) from = wordStart;
+  const wordEnd = text.lastIndexOf(' ', to);
+  if (to < text.length && wordEnd >= ranges[0].end) to = wordEnd;
+
+  const prefix = from > 0 ? '…' : '';
+  const shift = prefix.length - from;
+  return {
+    snippet: `${prefix}${text.slice(from, to)}${to < text.length ? '…' : ''}`,
+    snippetRanges: ranges
+      .filter(r => r.start >= from && r.end <= to)
+      .map(r => ({ start: r.start + shift, end: r.end + shift })),
+  };
+};
+
+/**
+ * Paragraphs of a chapter matching the query. Every phrase must occur somewhere in the chapter;
+ * each paragraph containing one of them is a hit.
+ */
+export const searchChapterContent = (content: string, phrases: string[][]): ChapterSearchHit[] => {
+  if (phrases.length === 0) return [];
+  const hits: ChapterSearchHit[] = [];
+  const seen = new Set<number>();
+  for (const block of parseMarkdown(content).blocks) {
+    const text = blockText(block);
+    const spans = tokenSpans(text);
+    const found = phrases.map(phrase => findPhrase(spans, phrase));
+    found.forEach((matches, i) => matches.length > 0 && seen.add(i));
+    const ranges = mergeRanges(found.flat());
+    if (ranges.length > 0) hits.push({ paragraph: block.line, ranges, ...makeSnippet(text, ranges) });
+  }
+  return seen.size === phrases.length ? hits.slice(0, MAX_HITS_PER_CHAPTER) : [];
+};
+
+/**
+ * Searches all downloaded chapters in the library. Quoted parts of the query are matched as
+ * phrases; results are grouped by novel (in library order), then chapter.
+ */
+export const searchChapters = async (query: string, library: LibraryItem[]): Promise<NovelSearchResult[]> => {
+  const phrases = parseQuery(query);
+  const candidates = await findChaptersWithTerms([...new Set(phrases.flat())]);
+  const results: NovelSearchResult[] = [];
+  let chapterCount = 0;
+
+  for (const novel of library) {
+    const chapterNumbers = candidates
+      .filter(c => c.novelId === novel.id)
+      .map(c => c.chapterNumber)
+      .sort((a, b) => a - b);
+    const chapters: ChapterSearchResult[] = [];
+    for (const chapterNumber of chapterNumbers) {
+      if (chapterCount === MAX_CHAPTERS) break;
+      const content = await getChapterContent(novel.id, chapterNumber);
+      const hits = content ? searchChapterContent(content, phrases) : [];
+      if (hits.length === 0) continue;
+      chapters.push({
+        chapterNumber,
+        title: novel.chapters.find(c => c.chapterNumber === chapterNumber)?.title || `Chapter ${chapterNumber}`,
+        hits,
+      });
+      chapterCount++;
+    }
+    if (chapters.length > 0) results.push({ novel, chapters });
+  }
+  return results;
+};
@@ -0,0 +1,74 @@
+import { ContentProvider, Novel, LibraryItem } from "../types";
+import { getAiBackend, getAiBackendId } from "./aiBackend";
+import { EPUB_PROVIDER_ID } from "./epubService";
+import { getStoryContext, recordChapterInBible } from "./storyBibleService";
+
+// --- Content provider registry ---
+// App.tsx never talks to a content source directly; it looks the provider up here.
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, ContentProvider>();
+
+/**
+ * Registers (or replaces) a content provider under its id.
+ */
+export const registerProvider = (provider: ContentProvider) => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Looks up a provider, falling back to the default for unknown or legacy ids.
+ */
+export const getProvider = (id?: string): ContentProvider => {
+  const provider = (id && providers.get(id)) || providers.get(DEFAULT_PROVIDER_ID);
+  if (!provider) throw new Error(`No content provider registered for "${id}"`);
+  return provider;
+};
+
+export const getProviderForNovel = (novel: Novel) => getProvider(novel.providerId);
+
+export const getProviders = (): ContentProvider[] => Array.from(providers.values());
+
+/** Providers that can be queried from the Discover screen. */
+export const getSearchProviders = (): ContentProvider[] => getProviders().filter(p => !!p.search);
+
+// --- Built-in providers ---
+
+const geminiProvider: ContentProvider = {
+  id: DEFAULT_PROVIDER_ID,
+  name: 'Gemini',
+  // The mock backend works offline
+  get requiresNetwork() { return getAiBackendId() !== 'mock'; },
+  search: async (query) => {
+    const results = await getAiBackend().searchNovels(query);
+    return results.map(novel => ({ ...novel, providerId: DEFAULT_PROVIDER_ID }));
+  },
+  getChapterList: (novel) => getAiBackend().getChapterList(novel),
+  getMoreChapters: (novel) => getAiBackend().getChapterList(novel, novel.chapters),
+  // Asking for more chapters always makes some up, so only check when the reader asks to
+  updateChecks: 'manual',
+  // Each chapter is written with the story bible as context, and added to it once stored
+  getChapterContent: async (novel, chapter) =>
+    getAiBackend().downloadChapterContent(novel.title, chapter.chapterNumber, chapter.title, await getStoryContext(novel.id, chapter.chapterNumber)),
+  streamChapterContent: async function* (novel, chapter, signal) {
+    const context = await getStoryContext(novel.id, chapter.chapterNumber);
+    return yield* getAiBackend().streamChapterContent(novel.title, chapter.chapterNumber, chapter.title, context, signal);
+  },
+  onChapterStored: (novel, chapter, content) => recordChapterInBible(novel, chapter, content),
+};
+
+registerProvider(geminiProvider);
+
+// Imported EPUBs carry their whole chapter list and text; nothing can be fetched later.
+const epubProvider: ContentProvider = {
+  id: EPUB_PROVIDER_ID,
+  name: 'EPUB File',
+  requiresNetwork: false,
+  getChapterList: async (novel) => (novel as LibraryItem).chapters || [],
+  getChapterContent: async () => {
+    throw new Error("Chapter is not part of the imported EPUB.");
+  },
+};
+
+registerProvider(epubProvider);
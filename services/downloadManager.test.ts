@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cancelDownload, enqueueDownload, getDownloadJobs } from './downloadManager';
+import { registerProvider } from './contentProviders';
+import { deleteNovelData, findChaptersWithTerms, getChapterContent } from './storageService';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+let finishGeneration: (content: string) => void = () => {};
+const getChapterContentMock = vi.fn(() => new Promise<string>(resolve => { finishGeneration = resolve; }));
+const onChapterStored = vi.fn(async () => {});
+
+registerProvider({
+  id: 'slow',
+  name: 'Slow',
+  requiresNetwork: false,
+  getChapterList: async () => [],
+  getChapterContent: getChapterContentMock,
+  onChapterStored,
+});
+
+const chapter = makeChapter('doomed', 1);
+const novel = makeNovel('doomed', { title: 'Doomed Novel', providerId: 'slow', chapters: [chapter] });
+
+describe('cancelDownload', () => {
+  it('drops a chapter that finishes generating after its novel was deleted', async () => {
+    await enqueueDownload(novel, [chapter]);
+    await vi.waitFor(() => expect(getChapterContentMock).toHaveBeenCalled());
+
+    cancelDownload(novel.id);
+    await deleteNovelData(novel.id);
+    finishGeneration('The gate closed behind them.');
+
+    await vi.waitFor(() => expect(getDownloadJobs()).toEqual([]));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await getChapterContent(novel.id, 1)).toBeNull();
+    expect(await findChaptersWithTerms(['gate'])).toEqual([]);
+    expect(onChapterStored).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,442 @@
+import { ChapterDownloadTask, ChapterMetadata, LibraryItem, NovelDownloadJob } from "../types";
+import { getProviderForNovel } from "./contentProviders";
+import { AiError, QuotaExceededError } from "./aiErrors";
+import { chapterKey, getChapterContent, getDownloadedChapterNumbers, getDownloadQueue, hasChapterContent, saveChapterContent, saveDownloadQueue } from "./storageService";
+
+// --- Download manager ---
+// A persistent queue of chapter downloads per novel. A bounded number of chapters download at
+// once, failed generations are retried with exponential backoff, and the queue is written to
+// IndexedDB on every change so it resumes after a reload.
+
+export const DOWNLOAD_CONCURRENCY = 2;
+export const MAX_DOWNLOAD_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 60000;
+
+// Failures that retrying cannot fix (non-retryable AiErrors are fatal too)
+const FATAL_ERRORS = new Set(["STORAGE_FULL", "CHAPTER_NOT_FOUND"]);
+// Failures that stop every other download as well
+const QUEUE_STOPPING_ERRORS = new Set(["STORAGE_FULL", "API_KEY_MISSING"]);
+
+export type DownloadEvent =
+  | { type: 'chapter'; novelId: string; chapterNumber: number }
+  | { type: 'failed'; novelId: string; chapterNumber: number; error: string }
+  | { type: 'complete'; novelId: string; title: string; total: number; background: boolean };
+
+let jobs: NovelDownloadJob[] = [];
+let isRestored = false;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const novels = new Map<string, LibraryItem>();
+const active = new Set<string>(); // chapterKey of in-flight downloads
+// Bumped by cancelDownload: downloads started before that drop their result instead of storing it
+const cancellations = new Map<string, number>();
+const waiters = new Map<string, { resolve: () => void; reject: (err: Error) => void }[]>();
+const stateListeners = new Set<() => void>();
+const eventListeners = new Set<(event: DownloadEvent) => void>();
+
+const backoffDelay = (attempts: number) =>
+  Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempts - 1)) * (0.75 + Math.random() * 0.5);
+
+const isFatal = (error: Error) =>
+  FATAL_ERRORS.has(error.message) || (error instanceof AiError && !error.retryable);
+
+// Waits at least as long as a rate-limited API asked us to
+const retryDelay = (error: Error, attempts: number) => {
+  const delay = backoffDelay(attempts);
+  return error instanceof QuotaExceededError && error.retryAfterMs ? Math.max(delay, error.retryAfterMs) : delay;
+};
+
+const setJobs = (next: NovelDownloadJob[]) => {
+  jobs = next;
+  // Don't overwrite the stored queue before it has been read back
+  if (isRestored) saveDownloadQueue(jobs).catch(e => console.error("Failed to save download queue", e));
+  stateListeners.forEach(listener => listener());
+};
+
+const emit = (event: DownloadEvent) => eventListeners.forEach(listener => listener(event));
+
+const updateJob = (novelId: string, update: (job: NovelDownloadJob) => NovelDownloadJob | null) => {
+  const next: NovelDownloadJob[] = [];
+  for (const job of jobs) {
+    if (job.novelId !== novelId) next.push(job);
+    else {
+      const updated = update(job);
+      if (updated) next.push(updated);
+    }
+  }
+  setJobs(next);
+};
+
+const patchTask = (novelId: string, chapterNumber: number, patch: Partial<ChapterDownloadTask>) =>
+  updateJob(novelId, job => ({
+    ...job,
+    tasks: job.tasks.map(t => t.chapterNumber === chapterNumber ? { ...t, ...patch } : t),
+  }));
+
+const findTask = (novelId: string, chapterNumber: number) =>
+  jobs.find(j => j.novelId === novelId)?.tasks.find(t => t.chapterNumber === chapterNumber);
+
+const settle = (key: string, error?: Error) => {
+  const pending = waiters.get(key);
+  if (!pending) return;
+  waiters.delete(key);
+  pending.forEach(w => error ? w.reject(error) : w.resolve());
+};
+
+const isNetworkBlocked = (novel: LibraryItem) =>
+  getProviderForNovel(novel).requiresNetwork && typeof navigator !== 'undefined' && !navigator.onLine;
+
+const finishTask = (novelId: string, chapterNumber: number) => {
+  let finishedJob: NovelDownloadJob | null = null;
+  updateJob(novelId, job => {
+    if (!job.tasks.some(t => t.chapterNumber === chapterNumber)) return job;
+    const updated = {
+      ...job,
+      completed: job.completed + 1,
+      tasks: job.tasks.filter(t => t.chapterNumber !== chapterNumber),
+    };
+    if (updated.tasks.length > 0) return updated;
+    finishedJob = updated;
+    return null;
+  });
+  emit({ type: 'chapter', novelId, chapterNumber });
+  if (finishedJob) {
+    const { title, total, background } = finishedJob as NovelDownloadJob;
+    emit({ type: 'complete', novelId, title, total, background: !!background });
+  }
+};
+
+// Lets the provider react to a new chapter (e.g. update the story bible) without holding up the queue
+const notifyStored = (novel: LibraryItem, chapter: ChapterMetadata, content: string) => {
+  getProviderForNovel(novel).onChapterStored?.(novel, chapter, content)
+    .catch(e => console.error(`Post-download hook failed for chapter ${chapter.chapterNumber}`, e));
+};
+
+const wasCancelled = (novelId: string, generation: number) => (cancellations.get(novelId) || 0) !== generation;
+
+const runTask = async (novel: LibraryItem, chapterNumber: number) => {
+  const key = chapterKey(novel.id, chapterNumber);
+  const generation = cancellations.get(novel.id) || 0;
+  active.add(key);
+  patchTask(novel.id, chapterNumber, { status: 'downloading', nextAttemptAt: undefined });
+
+  try {
+    if (!(await hasChapterContent(novel.id, chapterNumber))) {
+      const chapter = novel.chapters.find(c => c.chapterNumber === chapterNumber);
+      if (!chapter) throw new Error("CHAPTER_NOT_FOUND");
+      const provider = getProviderForNovel(novel);
+      const content = await provider.getChapterContent(novel, chapter);
+      if (wasCancelled(novel.id, generation)) throw new Error("DOWNLOAD_CANCELLED");
+      try {
+        await saveChapterContent(novel.id, chapterNumber, content);
+      } catch (e) {
+        console.error(e);
+        throw new Error("STORAGE_FULL");
+      }
+      notifyStored(novel, chapter, content);
+    }
+    active.delete(key);
+    finishTask(novel.id, chapterNumber);
+    settle(key);
+  } catch (e) {
+    active.delete(key);
+    const error = e instanceof Error ? e : new Error(String(e));
+    const task = findTask(novel.id, chapterNumber);
+    if (!task) {
+      // Cancelled while in flight
+      settle(key, error);
+    } else if (error.message === "DOWNLOAD_CANCELLED") {
+      // Queued again after the cancel: start over
+      patchTask(novel.id, chapterNumber, { status: 'queued' });
+    } else if (isFatal(error) || task.attempts + 1 >= MAX_DOWNLOAD_ATTEMPTS) {
+      console.error(`Download of chapter ${chapterNumber} failed`, error);
+      patchTask(novel.id, chapterNumber, { status: 'failed', attempts: task.attempts + 1, error: error.message, priority: false });
+      emit({ type: 'failed', novelId: novel.id, chapterNumber, error: error.message });
+      settle(key, error);
+      // Nothing else in the queue can be saved either
+      if (QUEUE_STOPPING_ERRORS.has(error.message)) setJobs(jobs.map(j => j.paused ? j : { ...j, paused: true, pausedBy: error.message }));
+    } else {
+      const attempts = task.attempts + 1;
+      patchTask(novel.id, chapterNumber, { status: 'retrying', attempts, error: error.message, nextAttemptAt: Date.now() + retryDelay(error, attempts) });
+    }
+  }
+  pump();
+};
+
+/** Starts as many eligible tasks as the concurrency limit allows. */
+const pump = () => {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+
+  const now = Date.now();
+  let nextWake = Infinity;
+  // Reader requests go first, then jobs in queue order
+  const candidates = jobs.flatMap(job => job.tasks.map(task => ({ job, task })))
+    .sort((a, b) => Number(!!b.task.priority) - Number(!!a.task.priority));
+
+  for (const { job, task } of candidates) {
+    if (active.size >= DOWNLOAD_CONCURRENCY) break;
+    if (job.paused && !task.priority) continue;
+    const novel = novels.get(job.novelId);
+    if (!novel || isNetworkBlocked(novel) || active.has(chapterKey(job.novelId, task.chapterNumber))) continue;
+
+    if (task.status === 'retrying' && (task.nextAttemptAt || 0) > now) {
+      nextWake = Math.min(nextWake, task.nextAttemptAt!);
+    } else if (task.status === 'queued' || task.status === 'retrying') {
+      runTask(novel, task.chapterNumber);
+    }
+  }
+
+  if (nextWake !== Infinity) wakeTimer = setTimeout(pump, nextWake - now);
+};
+
+if (typeof window !== 'undefined') window.addEventListener('online', () => pump());
+
+// --- Public API ---
+
+export const getDownloadJobs = (): NovelDownloadJob[] => jobs;
+
+/** Subscribes to queue changes (compatible with `useSyncExternalStore`). */
+export const subscribeDownloads = (listener: () => void) => {
+  stateListeners.add(listener);
+  return () => { stateListeners.delete(listener); };
+};
+
+export const subscribeDownloadEvents = (listener: (event: DownloadEvent) => void) => {
+  eventListeners.add(listener);
+  return () => { eventListeners.delete(listener); };
+};
+
+/**
+ * Keeps the manager's view of the library current. Jobs for novels that are no longer
+ * in the library are dropped.
+ */
+export const setDownloadLibrary = (library: LibraryItem[]) => {
+  novels.clear();
+  library.forEach(n => novels.set(n.id, n));
+  if (isRestored && jobs.some(j => !novels.has(j.novelId))) {
+    jobs.filter(j => !novels.has(j.novelId)).forEach(j => cancelDownload(j.novelId));
+  }
+  pump();
+};
+
+/**
+ * Loads the queue saved by a previous session and resumes it. Call once the library is loaded.
+ */
+export const restoreDownloadQueue = async (library: LibraryItem[]): Promise<void> => {
+  let saved: NovelDownloadJob[] = [];
+  try {
+    saved = await getDownloadQueue();
+  } catch (e) {
+    console.error("Failed to load download queue", e);
+  }
+  const known = new Set(library.map(n => n.id));
+  const restored = saved
+    .map(job => {
+      // Read-ahead belonged to the last reading session
+      const tasks = job.tasks.filter(t => !t.prefetch);
+      return { ...job, total: job.total - (job.tasks.length - tasks.length), tasks };
+    })
+    .filter(job => known.has(job.novelId) && job.tasks.length > 0)
+    .map(job => ({
+      ...job,
+      // Interrupted downloads start over; reader requests from the last session no longer matter
+      tasks: job.tasks.map(t => t.status === 'failed' ? t : { ...t, status: 'queued' as const, nextAttemptAt: undefined, priority: false }),
+    }));
+  isRestored = true;
+  // Keep anything queued while the stored copy was loading
+  setJobs([...restored.filter(r => !jobs.some(j => j.novelId === r.novelId)), ...jobs]);
+  setDownloadLibrary(library);
+};
+
+/**
+ * Queues chapters of a novel. Chapters already on the device are skipped, failed ones are
+ * re-queued, and a paused job is resumed. Returns how many chapters were added.
+ * Prefetch requests only add chapters; they never resume, retry or promote existing work.
+ */
+export const enqueueDownload = async (novel: LibraryItem, chapters: ChapterMetadata[], options: { prefetch?: boolean } = {}): Promise<number> => {
+  const prefetch = !!options.prefetch;
+  novels.set(novel.id, novel);
+  const downloaded = new Set(await getDownloadedChapterNumbers(novel.id));
+  const existing = jobs.find(j => j.novelId === novel.id);
+  const queued = new Set(existing?.tasks.map(t => t.chapterNumber));
+  const requested = new Set(chapters.map(c => c.chapterNumber));
+  const added: ChapterDownloadTask[] = chapters
+    .filter(c => !downloaded.has(c.chapterNumber) && !queued.has(c.chapterNumber))
+    .map(c => ({ chapterNumber: c.chapterNumber, status: 'queued', attempts: 0, ...(prefetch ? { prefetch } : {}) }));
+
+  if (existing && prefetch) {
+    if (added.length > 0) updateJob(novel.id, job => ({ ...job, total: job.total + added.length, tasks: [...job.tasks, ...added] }));
+  } else if (existing) {
+    updateJob(novel.id, job => ({
+      ...job,
+      paused: false,
+      pausedBy: undefined,
+      background: false,
+      total: job.total + added.length,
+      tasks: [
+        ...job.tasks.map(t => {
+          const task = requested.has(t.chapterNumber) ? { ...t, prefetch: false } : t;
+          return task.status === 'failed' ? { ...task, status: 'queued' as const, attempts: 0, error: undefined } : task;
+        }),
+        ...added,
+      ],
+    }));
+  } else if (added.length > 0) {
+    setJobs([...jobs, { novelId: novel.id, title: novel.title, paused: false, background: prefetch, total: added.length, completed: 0, tasks: added, createdAt: Date.now() }]);
+  }
+  pump();
+  return added.length;
+};
+
+/**
+ * Downloads one chapter ahead of everything else in the queue (used when opening the reader).
+ * Resolves once the chapter is stored; rejects with the last error if it ultimately fails.
+ */
+export const requestChapter = async (novel: LibraryItem, chapter: ChapterMetadata): Promise<void> => {
+  novels.set(novel.id, novel);
+  if (await hasChapterContent(novel.id, chapter.chapterNumber)) return;
+
+  const key = chapterKey(novel.id, chapter.chapterNumber);
+  const done = new Promise<void>((resolve, reject) => {
+    waiters.set(key, [...(waiters.get(key) || []), { resolve, reject }]);
+  });
+
+  const existing = jobs.find(j => j.novelId === novel.id);
+  const task = existing?.tasks.find(t => t.chapterNumber === chapter.chapterNumber);
+  if (task) {
+    const patch: Partial<ChapterDownloadTask> = { priority: true, prefetch: false };
+    if (task.status !== 'downloading') Object.assign(patch, { status: 'queued', nextAttemptAt: undefined });
+    if (task.status === 'failed') Object.assign(patch, { attempts: 0, error: undefined });
+    patchTask(novel.id, chapter.chapterNumber, patch);
+  } else {
+    const added: ChapterDownloadTask = { chapterNumber: chapter.chapterNumber, status: 'queued', attempts: 0, priority: true };
+    if (existing) updateJob(novel.id, job => ({ ...job, total: job.total + 1, tasks: [added, ...job.tasks] }));
+    else setJobs([...jobs, { novelId: novel.id, title: novel.title, paused: false, total: 1, completed: 0, tasks: [added], createdAt: Date.now() }]);
+  }
+  pump();
+  return done;
+};
+
+/**
+ * Generates a chapter for immediate reading, passing partial text to `onPartial` as it streams in.
+ * Storage is only written once the full text has passed validation, so an aborted or failed
+ * stream leaves nothing cached. Providers that can't stream, and chapters the queue is already
+ * downloading, fall back to `requestChapter`. Resolves with the stored text.
+ */
+export const streamChapter = async (novel: LibraryItem, chapter: ChapterMetadata, onPartial: (text: string) => void, signal: AbortSignal): Promise<string> => {
+  novels.set(novel.id, novel);
+  const key = chapterKey(novel.id, chapter.chapterNumber);
+  const provider = getProviderForNovel(novel);
+
+  if (!provider.streamChapterContent || active.has(key) || await hasChapterContent(novel.id, chapter.chapterNumber)) {
+    await requestChapter(novel, chapter);
+    return (await getChapterContent(novel.id, chapter.chapterNumber)) || '';
+  }
+
+  // Keep the queue from generating the same chapter in parallel
+  const generation = cancellations.get(novel.id) || 0;
+  active.add(key);
+  try {
+    const stream = provider.streamChapterContent(novel, chapter, signal);
+    let result = await stream.next();
+    while (!result.done) {
+      onPartial(result.value);
+      result = await stream.next();
+    }
+    if (signal.aborted || wasCancelled(novel.id, generation)) throw new Error("GENERATION_CANCELLED");
+    try {
+      await saveChapterContent(novel.id, chapter.chapterNumber, result.value);
+    } catch (e) {
+      console.error(e);
+      throw new Error("STORAGE_FULL");
+    }
+    notifyStored(novel, chapter, result.value);
+    active.delete(key);
+    finishTask(novel.id, chapter.chapterNumber);
+    settle(key);
+    return result.value;
+  } finally {
+    active.delete(key);
+    pump();
+  }
+};
+
+/**
+ * Queues the chapters after `current` for reading ahead, unless site storage is already
+ * over `budgetMb`. Returns how many chapters were queued.
+ */
+export const prefetchChapters = async (novel: LibraryItem, current: ChapterMetadata, count: number, budgetMb: number): Promise<number> => {
+  if (count <= 0) return 0;
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.usage !== undefined && estimate.usage > budgetMb * 1024 * 1024) return 0;
+  } catch (e) {
+    console.error("Storage estimate unavailable", e);
+  }
+  const start = novel.chapters.findIndex(c => c.id === current.id);
+  if (start === -1) return 0;
+  return enqueueDownload(novel, novel.chapters.slice(start + 1, start + 1 + count), { prefetch: true });
+};
+
+/** Drops read-ahead chapters that haven't started downloading (all novels if no id is given). */
+export const cancelPrefetch = (novelId?: string) => {
+  const isDropped = (job: NovelDownloadJob, t: ChapterDownloadTask) =>
+    !!t.prefetch && !active.has(chapterKey(job.novelId, t.chapterNumber));
+  if (!jobs.some(job => (!novelId || job.novelId === novelId) && job.tasks.some(t => isDropped(job, t)))) return;
+
+  setJobs(jobs.flatMap(job => {
+    if (novelId && job.novelId !== novelId) return [job];
+    const tasks = job.tasks.filter(t => !isDropped(job, t));
+    if (tasks.length === 0) return [];
+    return [{ ...job, total: job.total - (job.tasks.length - tasks.length), tasks }];
+  }));
+  pump();
+};
+
+export const pauseDownload = (novelId: string) => {
+  updateJob(novelId, job => ({ ...job, paused: true }));
+};
+
+export const resumeDownload = (novelId: string) => {
+  updateJob(novelId, job => ({ ...job, paused: false, pausedBy: undefined }));
+  pump();
+};
+
+/** Re-queues every failed chapter of a novel. */
+export const retryFailedDownloads = (novelId: string) => {
+  updateJob(novelId, job => ({
+    ...job,
+    paused: false,
+    pausedBy: undefined,
+    tasks: job.tasks.map(t => t.status === 'failed' ? { ...t, status: 'queued' as const, attempts: 0, error: undefined } : t),
+  }));
+  pump();
+};
+
+/**
+ * Recovers from a failure that stopped the whole queue (e.g. once an API key is configured):
+ * chapters that failed with `error` are re-queued and the jobs it paused are resumed.
+ */
+export const retryDownloadsFailedWith = (error: string) => {
+  setJobs(jobs.map(job => ({
+    ...job,
+    ...(job.pausedBy === error ? { paused: false, pausedBy: undefined } : {}),
+    tasks: job.tasks.map(t => t.status === 'failed' && t.error === error ? { ...t, status: 'queued' as const, attempts: 0, error: undefined } : t),
+  })));
+  pump();
+};
+
+/**
+ * Removes a novel's job. Chapters already being generated (queued or streamed) are discarded
+ * when they arrive, so nothing is stored for a novel that is being deleted.
+ */
+export const cancelDownload = (novelId: string) => {
+  cancellations.set(novelId, (cancellations.get(novelId) || 0) + 1);
+  const job = jobs.find(j => j.novelId === novelId);
+  if (!job) return;
+  updateJob(novelId, () => null);
+  job.tasks.forEach(t => settle(chapterKey(novelId, t.chapterNumber), new Error("DOWNLOAD_CANCELLED")));
+  pump();
+};
@@ -0,0 +1,476 @@
+import JSZip from "jszip";
+import { LibraryItem, ChapterMetadata, Annotation } from "../types";
+import { getNovelChapters, getNovelImages, getAnnotations, dataUrlToBlob } from "./storageService";
+import { markdownToXhtml, escapeXml } from "./markdownService";
+import { sortAnnotations } from "./annotationService";
+
+// --- EPUB import / export ---
+// Runs fully offline: the package is unzipped in the browser, the OPF metadata becomes the
+// Novel fields and each spine document is converted to the same Markdown-ish text that
+// generated chapters use, so the Reader treats imported and downloaded books alike.
+// Export goes the other way and writes an EPUB 3 package (with an NCX for older e-readers).
+
+export const EPUB_PROVIDER_ID = 'epub';
+
+export interface ImportedEpub {
+  novel: LibraryItem;
+  contents: { chapterNumber: number; content: string }[];
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    // Plenty of real-world EPUBs ship XHTML that is not well-formed XML
+    if (type !== 'text/html') return parseXml(text, 'text/html');
+    throw new Error("Unreadable EPUB document.");
+  }
+  return doc;
+};
+
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const firstText = (root: Document | Element, name: string) =>
+  byLocalName(root, name)[0]?.textContent?.trim() || '';
+
+/** Resolves an href relative to the directory of the document that references it. */
+const resolvePath = (baseDir: string, href: string): string => {
+  const parts = (baseDir ? `${baseDir}/${href}` : href).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return decodeURIComponent(resolved.join('/'));
+};
+
+const dirname = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+const stripFragment = (href: string) => href.split('#')[0];
+
+// Small stable hash so re-importing the same book replaces it instead of duplicating it
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+// --- XHTML -> text ---
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'main', 'nav',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'li', 'ul', 'ol', 'hr',
+  'figure', 'figcaption', 'table', 'tr', 'pre',
+]);
+
+const tagName = (node: Node) => (node as Element).localName?.toLowerCase() || '';
+
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const tag = tagName(node);
+  if (tag === 'br') return '\n';
+  if (tag === 'script' || tag === 'style') return '';
+
+  const inner = Array.from(node.childNodes).map(inlineText).join('');
+  if (!inner.trim()) return inner;
+  if (tag === 'em' || tag === 'i') return `*${inner.trim()}*`;
+  if (tag === 'strong' || tag === 'b') return `**${inner.trim()}**`;
+  return inner;
+};
+
+const collectBlocks = (el: Element, lines: string[]) => {
+  let buffer = '';
+  const flush = () => {
+    buffer.split('\n').map(l => l.trim()).filter(Boolean).forEach(l => lines.push(l));
+    buffer = '';
+  };
+
+  for (const child of Array.from(el.childNodes)) {
+    const tag = tagName(child);
+    if (child.nodeType !== Node.ELEMENT_NODE || !BLOCK_TAGS.has(tag)) {
+      buffer += inlineText(child);
+      continue;
+    }
+
+    flush();
+    if (tag === 'hr') {
+      lines.push('---');
+    } else if (/^h[1-6]$/.test(tag)) {
+      const text = inlineText(child).trim();
+      if (text) lines.push(`${'#'.repeat(parseInt(tag[1]))} ${text}`);
+    } else if (tag === 'blockquote') {
+      const quoted: string[] = [];
+      collectBlocks(child as Element, quoted);
+      quoted.forEach(l => lines.push(`> ${l}`));
+    } else {
+      collectBlocks(child as Element, lines);
+    }
+  }
+  flush();
+};
+
+/**
+ * Converts an XHTML chapter document into one-paragraph-per-line Markdown.
+ */
+export const xhtmlToText = (doc: Document): string => {
+  const body = doc.body || byLocalName(doc, 'body')[0];
+  if (!body) return '';
+  const lines: string[] = [];
+  collectBlocks(body, lines);
+  return lines.join('\n');
+};
+
+// --- Table of contents ---
+
+const readNavToc = (doc: Document, docDir: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const navs = byLocalName(doc, 'nav');
+  const toc = navs.find(n => n.getAttributeNS('http://www.idpf.org/2007/ops', 'type') === 'toc' || n.getAttribute('epub:type') === 'toc') || navs[0];
+  if (!toc) return titles;
+  byLocalName(toc, 'a').forEach(a => {
+    const href = a.getAttribute('href');
+    const text = a.textContent?.replace(/\s+/g, ' ').trim();
+    if (href && text) {
+      const path = resolvePath(docDir, stripFragment(href));
+      if (!titles.has(path)) titles.set(path, text);
+    }
+  });
+  return titles;
+};
+
+const readNcxToc = (doc: Document, docDir: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  byLocalName(doc, 'navPoint').forEach(point => {
+    const src = byLocalName(point, 'content')[0]?.getAttribute('src');
+    const text = firstText(byLocalName(point, 'navLabel')[0] || point, 'text');
+    if (src && text) {
+      const path = resolvePath(docDir, stripFragment(src));
+      if (!titles.has(path)) titles.set(path, text);
+    }
+  });
+  return titles;
+};
+
+// --- Package ---
+
+const findCover = (opf: Document, manifest: ManifestItem[]): ManifestItem | undefined => {
+  const byProperty = manifest.find(item => item.properties.includes('cover-image'));
+  if (byProperty) return byProperty;
+
+  const coverMeta = byLocalName(opf, 'meta').find(m => m.getAttribute('name') === 'cover');
+  const coverId = coverMeta?.getAttribute('content');
+  const byMeta = coverId ? manifest.find(item => item.id === coverId) : undefined;
+  if (byMeta) return byMeta;
+
+  return manifest.find(item => item.mediaType.startsWith('image/') && /cover/i.test(item.id + item.href));
+};
+
+/**
+ * Parses an EPUB (2 or 3) file into a library entry plus the text of every chapter.
+ */
+export const importEpub = async (file: Blob): Promise<ImportedEpub> => {
+  const zip = await JSZip.loadAsync(file);
+  const readText = async (path: string) => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Missing file in EPUB: ${path}`);
+    return entry.async('string');
+  };
+
+  // 1. container.xml points at the OPF package document
+  const container = parseXml(await readText('META-INF/container.xml'));
+  const opfPath = byLocalName(container, 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error("EPUB has no package document.");
+  const opfDir = dirname(opfPath);
+  const opf = parseXml(await readText(opfPath));
+
+  // 2. Metadata
+  const title = firstText(opf, 'title') || (file instanceof File ? file.name.replace(/\.epub$/i, '') : 'Untitled');
+  const author = byLocalName(opf, 'creator').map(c => c.textContent?.trim()).filter(Boolean).join(', ') || 'Unknown';
+  const rawDescription = firstText(opf, 'description');
+  const description = rawDescription
+    ? (parseXml(`<div>${rawDescription}</div>`, 'text/html').body.textContent || '').trim()
+    : 'Imported from EPUB.';
+  const subjects = byLocalName(opf, 'subject').map(s => s.textContent?.trim() || '').filter(Boolean);
+  const identifier = firstText(opf, 'identifier') || `${title}|${author}`;
+  const novelId = `epub_${hashString(identifier)}`;
+
+  // 3. Manifest & cover
+  const manifest: ManifestItem[] = byLocalName(opf, 'item').map(item => ({
+    id: item.getAttribute('id') || '',
+    href: resolvePath(opfDir, item.getAttribute('href') || ''),
+    mediaType: item.getAttribute('media-type') || '',
+    properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+  }));
+  const manifestById = new Map(manifest.map(item => [item.id, item]));
+
+  let coverUrl = `https://via.placeholder.com/300x450.png?text=${encodeURIComponent(title)}`;
+  const cover = findCover(opf, manifest);
+  const coverEntry = cover && zip.file(cover.href);
+  if (cover && coverEntry) {
+    coverUrl = `data:${cover.mediaType};base64,${await coverEntry.async('base64')}`;
+  }
+
+  // 4. Table of contents (EPUB 3 nav first, then EPUB 2 NCX)
+  let tocTitles = new Map<string, string>();
+  const navItem = manifest.find(item => item.properties.includes('nav'));
+  const spineEl = byLocalName(opf, 'spine')[0];
+  const ncxItem = manifestById.get(spineEl?.getAttribute('toc') || '') || manifest.find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (navItem && zip.file(navItem.href)) {
+    tocTitles = readNavToc(parseXml(await readText(navItem.href), 'application/xhtml+xml'), dirname(navItem.href));
+  }
+  if (tocTitles.size === 0 && ncxItem && zip.file(ncxItem.href)) {
+    tocTitles = readNcxToc(parseXml(await readText(ncxItem.href)), dirname(ncxItem.href));
+  }
+
+  // 5. Spine -> chapters
+  const chapters: ChapterMetadata[] = [];
+  const contents: ImportedEpub['contents'] = [];
+  const spineItems = byLocalName(spineEl || opf, 'itemref')
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifestById.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem => !!item && item !== navItem && !!zip.file(item.href));
+
+  for (const item of spineItems) {
+    let text = xhtmlToText(parseXml(await readText(item.href), 'application/xhtml+xml'));
+    if (!text.trim()) continue; // cover pages and other image-only documents
+
+    const lines = text.split('\n');
+    const heading = lines[0]?.startsWith('#') ? lines[0].replace(/^#+\s*/, '') : '';
+    const chapterTitle = tocTitles.get(item.href) || heading || `Chapter ${chapters.length + 1}`;
+    // The Reader prints the title itself, so drop a duplicated leading heading
+    if (heading && heading.toLowerCase() === chapterTitle.toLowerCase()) {
+      text = lines.slice(1).join('\n').trim();
+      if (!text) continue;
+    }
+
+    const chapterNumber = chapters.length + 1;
+    chapters.push({ id: chapterNumber.toString(), novelId, title: chapterTitle, chapterNumber });
+    contents.push({ chapterNumber, content: text });
+  }
+
+  if (chapters.length === 0) throw new Error("EPUB contains no readable chapters.");
+
+  const novel: LibraryItem = {
+    id: novelId,
+    title,
+    author,
+    description,
+    coverUrl,
+    tags: subjects.length > 0 ? subjects : ['EPUB'],
+    status: 'Completed',
+    lastUpdated: firstText(opf, 'date') || undefined,
+    providerId: EPUB_PROVIDER_ID,
+    downloaded: true,
+    chapters,
+    lastReadChapterId: chapters[0].id,
+    totalChapters: chapters.length,
+    savedAt: Date.now(),
+  };
+
+  return { novel, contents };
+};
+
+// --- Export ---
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const pad = (n: number) => n.toString().padStart(4, '0');
+
+const xhtmlDocument = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="../style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const EXPORT_STYLESHEET = `body { font-family: serif; line-height: 1.6; margin: 0 5%; }
+h1 { text-align: center; margin: 2em 0 1.5em; }
+p { text-indent: 1.5em; margin: 0 0 0.6em; }
+hr.scene-break { border: none; text-align: center; margin: 1.5em 0; }
+hr.scene-break::after { content: "* * *"; }
+blockquote { font-style: italic; margin: 1em 2em; }
+p.system { text-align: center; text-indent: 0; font-family: sans-serif; border: 1px solid #999; padding: 0.4em; margin: 1em 10%; }
+.footnotes { font-size: 0.85em; margin-top: 2em; }
+.footnotes p { text-indent: 0; }
+figure { margin: 2em 0; text-align: center; }
+img { max-width: 100%; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { height: 100%; }
+.annotation { margin: 0 0 1.2em; }
+.annotation blockquote { margin: 0 0 0.3em; padding-left: 0.6em; border-left: 4px solid #999; }
+.annotation blockquote.yellow { border-color: #e6c229; }
+.annotation blockquote.green { border-color: #5cb85c; }
+.annotation blockquote.blue { border-color: #4aa3df; }
+.annotation blockquote.pink { border-color: #e57fa8; }
+.annotation p { text-indent: 0; }
+.annotation .note { font-family: sans-serif; font-size: 0.9em; }`;
+
+/** The reader's bookmarks, highlights and notes by chapter, linking to exported chapters. */
+const annotationsToXhtml = (novel: LibraryItem, annotations: Annotation[], exported: Set<number>): string => {
+  const sections: string[] = ['<h1>Annotations</h1>'];
+  sortAnnotations(annotations).forEach((annotation, i, sorted) => {
+    const { chapterNumber } = annotation;
+    if (i === 0 || sorted[i - 1].chapterNumber !== chapterNumber) {
+      const title = `${chapterNumber}. ${novel.chapters.find(c => c.chapterNumber === chapterNumber)?.title || `Chapter ${chapterNumber}`}`;
+      sections.push(exported.has(chapterNumber)
+        ? `<h2><a href="ch${pad(chapterNumber)}.xhtml">${escapeXml(title)}</a></h2>`
+        : `<h2>${escapeXml(title)}</h2>`);
+    }
+    const body = annotation.kind === 'bookmark'
+      ? `<p>Bookmark: <i>${escapeXml(annotation.text)}…</i></p>`
+      : `<blockquote class="${annotation.color || 'yellow'}"><p>${escapeXml(annotation.text)}</p></blockquote>`;
+    const note = annotation.note ? `<p class="note">${escapeXml(annotation.note).replace(/\n/g, '<br/>')}</p>` : '';
+    sections.push(`<div class="annotation">${body}${note}</div>`);
+  });
+  return sections.join('\n');
+};
+
+const fetchCover = async (coverUrl: string): Promise<Blob | null> => {
+  try {
+    if (coverUrl.startsWith('data:')) return dataUrlToBlob(coverUrl);
+    const response = await fetch(coverUrl);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? blob : null;
+  } catch (e) {
+    // Most cover hosts don't send CORS headers; the book is still valid without one
+    console.warn("EPUB export: cover unavailable", e);
+    return null;
+  }
+};
+
+/**
+ * Builds an EPUB 3 package from a library entry and all of its downloaded chapters
+ * (in chapter order), including the cover and any generated chapter images.
+ */
+export const exportEpub = async (novel: LibraryItem): Promise<Blob> => {
+  const stored = await getNovelChapters(novel.id);
+  if (stored.length === 0) throw new Error("No downloaded chapters to export.");
+  const images = new Map((await getNovelImages(novel.id)).map(img => [img.chapterNumber, img.blob]));
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+  zip.file('OEBPS/style.css', EXPORT_STYLESHEET);
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="style.css" media-type="text/css"/>',
+  ];
+  const spine: string[] = [];
+  const toc: { href: string; title: string }[] = [];
+
+  const cover = await fetchCover(novel.coverUrl);
+  const coverExt = cover ? IMAGE_EXTENSIONS[cover.type] : undefined;
+  if (cover && coverExt) {
+    zip.file(`OEBPS/images/cover.${coverExt}`, cover);
+    zip.file('OEBPS/text/cover.xhtml', xhtmlDocument(novel.title, `<div class="cover"><img src="../images/cover.${coverExt}" alt="${escapeXml(novel.title)}"/></div>`));
+    manifest.push(`<item id="cover-image" href="images/cover.${coverExt}" media-type="${cover.type}" properties="cover-image"/>`);
+    manifest.push('<item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="cover" linear="no"/>');
+  }
+
+  for (const chapter of stored) {
+    const meta = novel.chapters.find(c => c.chapterNumber === chapter.chapterNumber);
+    const title = meta?.title || `Chapter ${chapter.chapterNumber}`;
+    const id = `ch${pad(chapter.chapterNumber)}`;
+    let body = `<h1>${escapeXml(title)}</h1>\n${markdownToXhtml(chapter.content)}`;
+
+    const image = images.get(chapter.chapterNumber);
+    const imageExt = image ? IMAGE_EXTENSIONS[image.type] : undefined;
+    if (image && imageExt) {
+      zip.file(`OEBPS/images/${id}.${imageExt}`, image);
+      manifest.push(`<item id="${id}-img" href="images/${id}.${imageExt}" media-type="${image.type}"/>`);
+      body += `\n<figure><img src="../images/${id}.${imageExt}" alt="${escapeXml(title)}"/></figure>`;
+    }
+
+    zip.file(`OEBPS/text/${id}.xhtml`, xhtmlDocument(title, body));
+    manifest.push(`<item id="${id}" href="text/${id}.xhtml" media-type="application/xhtml+xml"/>`);
+    spine.push(`<itemref idref="${id}"/>`);
+    toc.push({ href: `text/${id}.xhtml`, title: `${chapter.chapterNumber}. ${title}` });
+  }
+
+  const annotations = await getAnnotations(novel.id);
+  if (annotations.length > 0) {
+    const exported = new Set(stored.map(c => c.chapterNumber));
+    zip.file('OEBPS/text/annotations.xhtml', xhtmlDocument('Annotations', annotationsToXhtml(novel, annotations, exported)));
+    manifest.push('<item id="annotations" href="text/annotations.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="annotations"/>');
+    toc.push({ href: 'text/annotations.xhtml', title: 'Annotations' });
+  }
+
+  const bookId = `urn:ranobe:${novel.id}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="bookid">${escapeXml(bookId)}</dc:identifier>
+    <dc:title>${escapeXml(novel.title)}</dc:title>
+    <dc:creator>${escapeXml(novel.author)}</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:description>${escapeXml(novel.description)}</dc:description>
+${novel.tags.map(tag => `    <dc:subject>${escapeXml(tag)}</dc:subject>`).join('\n')}
+    <meta property="dcterms:modified">${modified}</meta>${cover && coverExt ? '\n    <meta name="cover" content="cover-image"/>' : ''}
+  </metadata>
+  <manifest>
+${manifest.map(m => `    ${m}`).join('\n')}
+  </manifest>
+  <spine toc="ncx">
+${spine.map(s => `    ${s}`).join('\n')}
+  </spine>
+</package>`);
+
+  zip.file('OEBPS/nav.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><meta charset="UTF-8"/><title>${escapeXml(novel.title)}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${toc.map(t => `<li><a href="${t.href}">${escapeXml(t.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>`);
+
+  zip.file('OEBPS/toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(bookId)}"/></head>
+<docTitle><text>${escapeXml(novel.title)}</text></docTitle>
+<navMap>
+${toc.map((t, i) => `<navPoint id="np${i + 1}" playOrder="${i + 1}"><navLabel><text>${escapeXml(t.title)}</text></navLabel><content src="${t.href}"/></navPoint>`).join('\n')}
+</navMap>
+</ncx>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@google/genai';
+
+// Stub the SDK client; everything else in @google/genai (Type, ApiError) stays real
+const models = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: vi.fn(() => ({ models })),
+}));
+
+import { cleanJson, searchNovels, getChapterList, getFeaturedNovels, downloadChapterContent, generateChapterImage, setApiKey } from './geminiService';
+import { ApiKeyMissingError, MalformedResponseError, NetworkError, QuotaExceededError, SafetyBlockedError } from './aiErrors';
+import { Novel } from '../types';
+
+const textResponse = (text: string) => ({ text, candidates: [{ finishReason: 'STOP' }] });
+
+const LONG_CHAPTER = 'The rain had not stopped for three days. '.repeat(10);
+
+beforeEach(() => {
+  setApiKey('test-key');
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.useRealTimers();
+});
+
+describe('cleanJson', () => {
+  it('strips Markdown code fences', () => {
+    expect(cleanJson('```json\n[{"a":1}]\n```')).toBe('[{"a":1}]');
+  });
+
+  it('extracts the array from surrounding prose', () => {
+    expect(cleanJson('Here are the results: [1, 2, 3]. Enjoy!')).toBe('[1, 2, 3]');
+  });
+
+  it('leaves text without an array alone', () => {
+    expect(cleanJson('  {"a": 1}  ')).toBe('{"a": 1}');
+  });
+});
+
+describe('searchNovels', () => {
+  it('derives ids from title and author and fills in missing authors, tags and covers', async () => {
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([
+      { title: 'Overlord', author: 'Kugane Maruyama', description: 'A skeleton.', coverUrl: 'https://example.com/overlord.jpg', tags: ['Dark Fantasy'], status: 'ongoing' },
+      { id: 'given-id', title: 'No Cover & Co', coverUrl: '/relative.png' },
+    ])));
+
+    const [first, second] = await searchNovels('overlord');
+
+    expect(first).toEqual({
+      id: 'novel_overlord--kugane-maruyama',
+      title: 'Overlord',
+      author: 'Kugane Maruyama',
+      description: 'A skeleton.',
+      status: 'Ongoing',
+      tags: ['Dark Fantasy'],
+      coverUrl: 'https://example.com/overlord.jpg',
+    });
+    expect(second.id).toBe('novel_no-cover-and-co');
+    expect(second.author).toBe('Unknown');
+    expect(second.tags).toEqual(['Novel']);
+    expect(second.coverUrl).toBe('https://via.placeholder.com/300x450.png?text=No%20Cover%20%26%20Co');
+  });
+
+  it('gives the same series the same id on every search', async () => {
+    models.generateContent
+      .mockResolvedValueOnce(textResponse(JSON.stringify([{ title: 'Re:Zero', author: 'Tappei Nagatsuki' }])))
+      .mockResolvedValueOnce(textResponse(JSON.stringify([{ title: 're zero', author: 'NAGATSUKI Tappei' }])));
+
+    const [first] = await searchNovels('re zero');
+    const [second] = await searchNovels('rezero');
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('uses grounded search and reads JSON wrapped in prose', async () => {
+    models.generateContent.mockResolvedValue(textResponse('Sure!\n```json\n[{"title": "Re:Zero"}]\n```'));
+
+    const results = await searchNovels('re zero');
+
+    expect(results.map(r => r.title)).toEqual(['Re:Zero']);
+    expect(models.generateContent.mock.calls[0][0].config.tools).toEqual([{ googleSearch: {} }]);
+    expect(models.generateContent.mock.calls[0][0].contents).toContain('"re zero"');
+  });
+
+  it('drops malformed items instead of failing the whole search', async () => {
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([{ author: 'No title' }, { title: 'Valid' }, 'junk'])));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const results = await searchNovels('anything');
+
+    expect(results.map(r => r.title)).toEqual(['Valid']);
+  });
+
+  it('throws MalformedResponseError when nothing is usable', async () => {
+    models.generateContent.mockResolvedValue(textResponse('I could not find anything.'));
+    await expect(searchNovels('nothing')).rejects.toBeInstanceOf(MalformedResponseError);
+
+    models.generateContent.mockResolvedValue(textResponse('[{"author": "no title"}]'));
+    await expect(searchNovels('nothing')).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+
+  it('throws ApiKeyMissingError without calling the API when no key is set', async () => {
+    setApiKey(null);
+    await expect(searchNovels('overlord')).rejects.toBeInstanceOf(ApiKeyMissingError);
+    expect(models.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('classifies API failures', async () => {
+    models.generateContent.mockRejectedValueOnce(new ApiError({ message: 'Resource has been exhausted. Please retry in 7s.', status: 429 }));
+    const quota = await searchNovels('x').catch(e => e);
+    expect(quota).toBeInstanceOf(QuotaExceededError);
+    expect(quota.retryAfterMs).toBe(7000);
+
+    models.generateContent.mockRejectedValueOnce(new ApiError({ message: 'API key not valid.', status: 400 }));
+    await expect(searchNovels('x')).rejects.toBeInstanceOf(ApiKeyMissingError);
+
+    models.generateContent.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await expect(searchNovels('x')).rejects.toBeInstanceOf(NetworkError);
+
+    models.generateContent.mockResolvedValueOnce({ text: '', promptFeedback: { blockReason: 'SAFETY' } });
+    await expect(searchNovels('x')).rejects.toBeInstanceOf(SafetyBlockedError);
+  });
+});
+
+describe('getFeaturedNovels', () => {
+  it('uses the ids search results get for the same novel', async () => {
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([{ title: 'Overlord', author: 'Kugane Maruyama' }])));
+
+    const [result] = await searchNovels('overlord');
+    const featured = await getFeaturedNovels();
+
+    expect(featured.find(n => n.title === 'Overlord')?.id).toBe(result.id);
+    expect(new Set(featured.map(n => n.id)).size).toBe(featured.length);
+  });
+});
+
+describe('getChapterList', () => {
+  const novel = (title: string): Novel => ({ id: `novel_${title}`, title, author: 'Author', description: '', coverUrl: '', tags: [], status: 'Ongoing' });
+
+  it('maps chapters to metadata linked to the novel', async () => {
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([
+      { chapterNumber: 1, title: 'Prologue' },
+      { chapterNumber: 2, title: 'The Guild' },
+    ])));
+
+    const chapters = await getChapterList(novel('Solo Leveling'));
+
+    expect(chapters).toEqual([
+      { id: '1', novelId: 'novel_Solo Leveling', title: 'Prologue', chapterNumber: 1 },
+      { id: '2', novelId: 'novel_Solo Leveling', title: 'The Guild', chapterNumber: 2 },
+    ]);
+    expect(models.generateContent.mock.calls[0][0].config.responseSchema).toBeDefined();
+  });
+
+  it('sorts, de-duplicates and skips entries without a usable number', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([
+      { chapterNumber: 3, title: 'Three' },
+      { chapterNumber: '1', title: 'One' },
+      { chapterNumber: 3, title: 'Three again' },
+      { chapterNumber: null, title: 'Broken' },
+      { chapterNumber: 0, title: 'Zero' },
+      { title: 'Missing number' },
+    ])));
+
+    const chapters = await getChapterList(novel('Novel'));
+
+    expect(chapters.map(c => [c.chapterNumber, c.title])).toEqual([[1, 'One'], [3, 'Three']]);
+  });
+
+  it('continues after the known chapters and keeps volumes', async () => {
+    models.generateContent.mockResolvedValue(textResponse(JSON.stringify([
+      { chapterNumber: 20, title: 'Already known' },
+      { chapterNumber: 21, title: 'The Gate', volume: ' Volume 2: Red Gate ' },
+      { chapterNumber: 22, title: 'The Return' },
+    ])));
+    const known = Array.from({ length: 20 }, (_, i) => ({ id: String(i + 1), novelId: 'novel_Novel', title: `Chapter ${i + 1}`, chapterNumber: i + 1, volume: 'Volume 1' }));
+
+    const chapters = await getChapterList(novel('Novel'), known);
+
+    expect(chapters).toEqual([
+      { id: '21', novelId: 'novel_Novel', title: 'The Gate', chapterNumber: 21, volume: 'Volume 2: Red Gate' },
+      { id: '22', novelId: 'novel_Novel', title: 'The Return', chapterNumber: 22 },
+    ]);
+    const prompt: string = models.generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('chapters 21 to 40');
+    expect(prompt).toContain('20. Chapter 20 (Volume 1)');
+    expect(prompt).not.toContain('15. Chapter 15');
+  });
+
+  it('returns an empty batch when the novel has no more chapters', async () => {
+    models.generateContent.mockResolvedValue(textResponse('[]'));
+
+    await expect(getChapterList(novel('Novel'), [{ id: '1', novelId: 'novel_Novel', title: 'Only', chapterNumber: 1 }])).resolves.toEqual([]);
+  });
+});
+
+describe('downloadChapterContent', () => {
+  it('returns the chapter text without code fences', async () => {
+    models.generateContent.mockResolvedValue(textResponse('```markdown\n' + LONG_CHAPTER + '\n```'));
+
+    await expect(downloadChapterContent('Novel', 1, 'Prologue')).resolves.toBe(LONG_CHAPTER.trimEnd());
+  });
+
+  it('rejects content that is too short or empty', async () => {
+    models.generateContent.mockResolvedValue(textResponse('Too short.'));
+    await expect(downloadChapterContent('Novel', 1, 'Prologue')).rejects.toThrow(MalformedResponseError);
+
+    models.generateContent.mockResolvedValue({ candidates: [] });
+    await expect(downloadChapterContent('Novel', 1, 'Prologue')).rejects.toThrow(MalformedResponseError);
+  });
+
+  it('puts the story context into the prompt', async () => {
+    models.generateContent.mockResolvedValue(textResponse(LONG_CHAPTER));
+
+    await downloadChapterContent('Novel', 2, 'The Guild', 'Characters:\n- Jin: a hunter');
+
+    const prompt: string = models.generateContent.mock.calls[0][0].contents;
+    expect(prompt).toContain('Chapter 2: "The Guild"');
+    expect(prompt).toContain('- Jin: a hunter');
+  });
+});
+
+describe('generateChapterImage', () => {
+  it('returns the first inline image part as a data URL', async () => {
+    models.generateContent
+      .mockResolvedValueOnce(textResponse('A lone swordsman on a cliff at dawn.'))
+      .mockResolvedValueOnce({
+        candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'Here you go' }, { inlineData: { data: 'aW1hZ2U=', mimeType: 'image/png' } }] } }],
+      });
+
+    await expect(generateChapterImage(LONG_CHAPTER)).resolves.toBe('data:image/png;base64,aW1hZ2U=');
+    expect(models.generateContent.mock.calls[1][0].contents.parts[0].text).toContain('A lone swordsman on a cliff at dawn.');
+  });
+
+  it('throws MalformedResponseError when the response has no image', async () => {
+    models.generateContent
+      .mockResolvedValueOnce(textResponse('A scene.'))
+      .mockResolvedValueOnce({ candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'I cannot draw that.' }] } }] });
+
+    await expect(generateChapterImage(LONG_CHAPTER)).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+});
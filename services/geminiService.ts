@@ -1,24 +1,55 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Novel, ChapterMetadata } from "../types";
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { Novel, ChapterMetadata, ChapterNotes, AiBackend } from "../types";
+import { ApiKeyMissingError, MalformedResponseError, QuotaExceededError, assertNotBlocked, toAiError } from "./aiErrors";
+import { parseWithSchema } from "./responseSchema";
+import { DEFAULT_AI_CONFIG, getAiTaskConfig, renderPrompt } from "./aiConfigService";
+import { nextChapterNumber } from "./chapterListService";
+import { canonicalNovelId } from "./novelIdentity";
 
-// Lazy initialization to prevent top-level crashes on module load
+// The client is built lazily from the user's key and rebuilt whenever the key changes
 let ai: GoogleGenAI | null = null;
+let apiKey: string | null = null;
+
+/** Sets the key used for every Gemini call (null clears it). */
+export const setApiKey = (key: string | null) => {
+  apiKey = key?.trim() || null;
+  ai = null;
+};
+
+export const hasApiKey = () => !!apiKey;
 
 const getAiClient = () => {
-  if (!ai) {
-    const apiKey = process.env.API_KEY;
-    
-    if (!apiKey) {
-      console.warn("Gemini Service: API Key is missing.");
-      return null;
-    }
-    ai = new GoogleGenAI({ apiKey });
-  }
+  if (!ai && apiKey) ai = new GoogleGenAI({ apiKey });
   return ai;
 };
 
+/**
+ * Checks a key with a model metadata request, which uses no tokens.
+ * Throws ApiKeyMissingError if the key is rejected, or another AiError if it couldn't be checked.
+ */
+export const validateApiKey = async (key: string): Promise<void> => {
+  try {
+    await new GoogleGenAI({ apiKey: key }).models.get({ model: DEFAULT_AI_CONFIG.chapterText.model });
+  } catch (error) {
+    const aiError = toAiError(error);
+    // A rate-limited key has still been accepted
+    if (!(aiError instanceof QuotaExceededError)) throw aiError;
+  }
+};
+
+// Runs a Gemini call, turning every failure into a typed AiError
+const callGemini = async <T>(task: (client: GoogleGenAI) => Promise<T>): Promise<T> => {
+  const client = getAiClient();
+  if (!client) throw new ApiKeyMissingError();
+  try {
+    return await task(client);
+  } catch (error) {
+    throw toAiError(error);
+  }
+};
+
 // Helper to clean JSON strings from Markdown
-const cleanJson = (text: string) => {
+export const cleanJson = (text: string) => {
     let clean = text.replace(/```\w*\n?/g, '').replace(/```/g, '').trim();
     const firstBracket = clean.indexOf('[');
     const lastBracket = clean.lastIndexOf(']');
@@ -28,60 +59,57 @@ const cleanJson = (text: string) => {
     return clean;
 };
 
+const NOVEL_LIST_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      author: { type: Type.STRING },
+      description: { type: Type.STRING },
+      coverUrl: { type: Type.STRING },
+      tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      status: { type: Type.STRING, enum: ['Ongoing', 'Completed'] },
+    },
+    required: ['title'],
+  },
+};
+
 /**
  * Searches for light novels using Google Search grounding to find real covers.
  */
-export const searchNovels = async (query: string): Promise<Novel[]> => {
-  try {
-    const client = getAiClient();
-    if (!client) throw new Error("API_KEY_MISSING");
-
-    const model = 'gemini-2.5-flash';
-    // Improved prompt to ask for stable image sources
-    const prompt = `
-      Search for the light novel series: "${query}".
-      Find 4 distinct results.
-      For each, find:
-      1. Precise Title
-      2. Author Name
-      3. A brief 1-sentence description
-      4. Status (Ongoing/Completed)
-      5. A direct URL to the Cover Image. PREFER URLs from: Wikimedia, Wikipedia, Amazon, or GoodReads. Avoid URLs that look like temporary session links.
-      
-      Return the result strictly as a JSON array with these keys:
-      id (generate a random string), title, author, description, coverUrl, tags (array of strings), status.
-    `;
+export const searchNovels = (query: string): Promise<Novel[]> => callGemini(async (client) => {
+    const config = getAiTaskConfig('search');
+    const prompt = renderPrompt(config.prompt, { query, targetLength: config.targetLength });
 
+    // Grounding can't be combined with responseSchema, so the schema is only enforced locally
     const response = await client.models.generateContent({
-      model: model,
+      model: config.model,
       contents: prompt,
       config: {
+        temperature: config.temperature,
         tools: [{ googleSearch: {} }],
       },
     });
+    assertNotBlocked(response);
 
-    let jsonStr = response.text || "[]";
-    jsonStr = cleanJson(jsonStr);
-
-    const data = JSON.parse(jsonStr);
+    const data = parseWithSchema<Partial<Novel>[]>(cleanJson(response.text || "[]"), NOVEL_LIST_SCHEMA);
     
-    // Validation and Fallback for broken images
-    return data.map((item: any, index: number) => ({
-      ...item,
-      id: item.id || `novel_${Date.now()}_${index}`,
-      tags: item.tags || ['Novel'],
+    // Fill optional fields and fall back for broken images. The id comes from the title and
+    // author, so the same series gets the same id on every search.
+    return data.map(item => ({
+      id: canonicalNovelId(item.title!, item.author),
+      title: item.title!,
+      author: item.author || 'Unknown',
+      description: item.description || '',
+      status: item.status || 'Ongoing',
+      tags: item.tags?.length ? item.tags : ['Novel'],
       // Basic check if it looks like a URL
       coverUrl: (item.coverUrl && item.coverUrl.startsWith('http')) 
         ? item.coverUrl 
-        : `https://via.placeholder.com/300x450.png?text=${encodeURIComponent(item.title)}`
+        : `https://via.placeholder.com/300x450.png?text=${encodeURIComponent(item.title!)}`
     }));
-
-  } catch (error: any) {
-    console.error("Gemini Search Error:", error);
-    if (error.message === "API_KEY_MISSING") throw new Error("API_KEY_MISSING");
-    throw new Error("Failed to search. Please try again.");
-  }
-};
+});
 
 /**
  * Returns a static list of highly rated novels to ensure instant load and valid images.
@@ -89,9 +117,8 @@ export const searchNovels = async (query: string): Promise<Novel[]> => {
  */
 export const getFeaturedNovels = async (): Promise<Novel[]> => {
     // Static curated list with stable Wikimedia/high-quality URLs
-    const curated: Novel[] = [
+    const curated: Omit<Novel, 'id'>[] = [
         {
-            id: 'sl_001',
             title: 'Solo Leveling',
             author: 'Chugong',
             description: 'From the weakest hunter to the strongest.',
@@ -100,7 +127,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/9/9a/Solo_Leveling_Webtoon_cover.png'
         },
         {
-            id: 'mt_001',
             title: 'Mushoku Tensei',
             author: 'Rifujin na Magonote',
             description: 'A jobless man reincarnates in a fantasy world.',
@@ -109,7 +135,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/c/c4/Mushoku_Tensei_light_novel_volume_1_cover.jpg'
         },
         {
-            id: 'overlord_001',
             title: 'Overlord',
             author: 'Kugane Maruyama',
             description: 'A skeletal wizard conquers a new world.',
@@ -118,7 +143,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/5/50/Overlord_volume_1_cover.jpg'
         },
         {
-            id: 'slime_001',
             title: 'That Time I Got Reincarnated as a Slime',
             author: 'Fuse',
             description: 'A salaryman dies and wakes up as a slime.',
@@ -127,7 +151,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/8/87/Tensei_Shitara_Slime_Datta_Ken_volume_1_cover.jpg'
         },
         {
-            id: 'rezero_001',
             title: 'Re:Zero - Starting Life in Another World',
             author: 'Tappei Nagatsuki',
             description: 'Subaru Natsuki can return by death.',
@@ -136,7 +159,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/e/eb/Re-Zero_kara_Hajimeru_Isekai_Seikatsu_light_novel_volume_1_cover.jpg'
         },
         {
-            id: 'cote_001',
             title: 'Classroom of the Elite',
             author: 'Shōgo Kinugasa',
             description: 'Students compete for points in a cutthroat school.',
@@ -145,7 +167,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/3/36/Classroom_of_the_Elite_volume_1_cover.jpg'
         },
         {
-            id: 'sao_001',
             title: 'Sword Art Online',
             author: 'Reki Kawahara',
             description: 'Trapped in a VRMMORPG where death is real.',
@@ -154,7 +175,6 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
             coverUrl: 'https://upload.wikimedia.org/wikipedia/en/2/20/Sword_Art_Online_Light_Novel_Volume_01.jpg'
         },
         {
-            id: 'ngnl_001',
             title: 'No Game No Life',
             author: 'Yuu Kamiya',
             description: 'Siblings conquer a world ruled by games.',
@@ -164,95 +184,209 @@ export const getFeaturedNovels = async (): Promise<Novel[]> => {
         }
     ];
 
-    // Wrap in promise to match interface
-    return Promise.resolve(curated);
+    // Same ids as search results, so a featured novel and its search hit are one library entry
+    return curated.map(novel => ({ id: canonicalNovelId(novel.title, novel.author), ...novel }));
 };
 
+const CHAPTER_LIST_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      chapterNumber: { type: Type.INTEGER },
+      title: { type: Type.STRING },
+      volume: { type: Type.STRING },
+    },
+    required: ['chapterNumber', 'title'],
+  },
+};
+
+// How many of the known chapters are repeated in the prompt so the next batch follows on from them
+const PREVIOUS_CHAPTERS_IN_PROMPT = 5;
+
+const describeChapter = (ch: ChapterMetadata) => `${ch.chapterNumber}. ${ch.title}${ch.volume ? ` (${ch.volume})` : ''}`;
+
 /**
- * Generates a list of chapters for a novel.
+ * Generates the next batch of chapters for a novel, continuing after `known`.
  */
-export const getChapterList = async (novelTitle: string): Promise<ChapterMetadata[]> => {
-    const client = getAiClient();
-    if (!client) throw new Error("API_KEY_MISSING");
-
+export const getChapterList = (novel: Novel, known: ChapterMetadata[] = []): Promise<ChapterMetadata[]> => callGemini(async (client) => {
     // We ask the model to generate a plausible list of chapters
-    const prompt = `
-        Generate a list of the first 20 chapter titles for the light novel "${novelTitle}".
-        Return a JSON array of objects with keys: "chapterNumber" (number) and "title" (string).
-        Example: [{"chapterNumber": 1, "title": "Prologue"}, ...]
-    `;
+    const config = getAiTaskConfig('chapterList');
+    const startChapter = nextChapterNumber(known);
+    const previous = known.slice(-PREVIOUS_CHAPTERS_IN_PROMPT);
+    const prompt = renderPrompt(config.prompt, {
+        novelTitle: novel.title,
+        startChapter,
+        endChapter: startChapter + config.targetLength - 1,
+        previousChapters: previous.length > 0
+            ? `Continue the numbering, titles and volumes from the chapters before them:\n${previous.map(describeChapter).join('\n')}`
+            : '',
+        targetLength: config.targetLength,
+    });
 
     const response = await client.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model: config.model,
         contents: prompt,
-        config: { responseMimeType: "application/json" }
+        config: { temperature: config.temperature, responseMimeType: "application/json", responseSchema: CHAPTER_LIST_SCHEMA }
     });
+    assertNotBlocked(response);
 
-    const data = JSON.parse(cleanJson(response.text || "[]"));
-    return data.map((ch: any) => ({
-        id: ch.chapterNumber.toString(),
-        novelId: novelTitle, // simplistic linking
-        title: ch.title,
-        chapterNumber: ch.chapterNumber
-    }));
+    const data = parseWithSchema<{ chapterNumber: number, title: string, volume?: string }[]>(response.text, CHAPTER_LIST_SCHEMA);
+    // Keep the first entry for each new number, in reading order
+    const seen = new Set<number>();
+    return data
+        .filter(ch => ch.chapterNumber >= startChapter && !seen.has(ch.chapterNumber) && seen.add(ch.chapterNumber))
+        .sort((a, b) => a.chapterNumber - b.chapterNumber)
+        .map(ch => ({
+            id: ch.chapterNumber.toString(),
+            novelId: novel.id,
+            title: ch.title,
+            chapterNumber: ch.chapterNumber,
+            ...(ch.volume?.trim() ? { volume: ch.volume.trim() } : {}),
+        }));
+});
+
+const MIN_CHAPTER_LENGTH = 100;
+
+// Model, settings and prompt for generating one chapter
+const chapterRequest = (novelTitle: string, chapterNumber: number, chapterTitle: string, storyContext?: string) => {
+  const config = getAiTaskConfig('chapterText');
+  return {
+    model: config.model,
+    contents: renderPrompt(config.prompt, {
+      novelTitle,
+      chapterNumber,
+      chapterTitle,
+      storyContext: storyContext
+        ? `Stay consistent with the story so far. Do not contradict it or rename established characters and terms.\n${storyContext}`
+        : '',
+      targetLength: config.targetLength,
+    }),
+    temperature: config.temperature,
+  };
+};
+
+// Strips the code fence the model sometimes wraps the chapter in
+const stripFences = (text: string) => text.replace(/^```(markdown|md)?\s*/i, "").replace(/\s*```$/, "");
+
+// Rejects empty or truncated chapters; the mock backend applies the same check
+export const validateChapterText = (text: string) => {
+  if (!text || text.length < MIN_CHAPTER_LENGTH) {
+      throw new MalformedResponseError("Generated content too short or empty.");
+  }
+  return text;
 };
 
 /**
  * Generates the content of a specific chapter.
  */
-export const downloadChapterContent = async (novelTitle: string, chapterNumber: number, chapterTitle: string): Promise<string> => {
+export const downloadChapterContent = (novelTitle: string, chapterNumber: number, chapterTitle: string, storyContext?: string): Promise<string> => callGemini(async (client) => {
+  const { model, contents, temperature } = chapterRequest(novelTitle, chapterNumber, chapterTitle, storyContext);
+  const response = await client.models.generateContent({ model, contents, config: { temperature } });
+  assertNotBlocked(response);
+
+  return validateChapterText(stripFences(response.text || ""));
+});
+
+/**
+ * Streams a chapter as it is generated, yielding the text received so far after each chunk.
+ * The generator's return value is the full text, validated like `downloadChapterContent`.
+ */
+export async function* streamChapterContent(novelTitle: string, chapterNumber: number, chapterTitle: string, storyContext?: string, signal?: AbortSignal): AsyncGenerator<string, string> {
   const client = getAiClient();
-  if (!client) throw new Error("API_KEY_MISSING");
+  if (!client) throw new ApiKeyMissingError();
 
-  const prompt = `
-    Write the full content for Chapter ${chapterNumber}: "${chapterTitle}" of the light novel "${novelTitle}".
-    
-    Style guide:
-    - Write in the style of a professional light novel translation.
-    - 1500-2500 words.
-    - Use dialogue heavily.
-    - Use standard Markdown.
-    - Do NOT include the chapter title at the beginning, just the story text.
-  `;
+  let text = "";
+  try {
+    const { model, contents, temperature } = chapterRequest(novelTitle, chapterNumber, chapterTitle, storyContext);
+    const stream = await client.models.generateContentStream({ model, contents, config: { temperature, abortSignal: signal } });
+
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw new Error("GENERATION_CANCELLED");
+      assertNotBlocked(chunk);
+      text += chunk.text || "";
+      yield stripFences(text);
+    }
+  } catch (error) {
+    throw toAiError(error);
+  }
+  if (signal?.aborted) throw new Error("GENERATION_CANCELLED");
+
+  return validateChapterText(stripFences(text));
+}
+
+const CHAPTER_NOTES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    characters: {
+      type: Type.ARRAY,
+      items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING } }, required: ['name', 'description'] },
+    },
+    glossary: {
+      type: Type.ARRAY,
+      items: { type: Type.OBJECT, properties: { term: { type: Type.STRING }, definition: { type: Type.STRING } }, required: ['term', 'definition'] },
+    },
+  },
+  required: ['summary'],
+};
+
+/**
+ * Summarizes a finished chapter for the story bible, listing the characters and invented
+ * terms that appear in it (new ones, or known ones whose description changed).
+ */
+export const summarizeChapter = (novelTitle: string, chapterNumber: number, chapterTitle: string, content: string, storyContext?: string): Promise<ChapterNotes> => callGemini(async (client) => {
+  const config = getAiTaskConfig('chapterNotes');
+  const prompt = renderPrompt(config.prompt, {
+    novelTitle,
+    chapterNumber,
+    chapterTitle,
+    storyContext: storyContext ? `Current notes:\n${storyContext}` : '',
+    content,
+    targetLength: config.targetLength,
+  });
 
   const response = await client.models.generateContent({
-    model: 'gemini-2.5-flash',
+    model: config.model,
     contents: prompt,
+    config: { temperature: config.temperature, responseMimeType: "application/json", responseSchema: CHAPTER_NOTES_SCHEMA },
   });
+  assertNotBlocked(response);
 
-  let text = response.text || "";
-  text = text.replace(/^```(markdown|md)?\s*/i, "").replace(/\s*```$/, "");
-  
-  if (!text || text.length < 100) {
-      throw new Error("Generated content too short or empty.");
-  }
-
-  return text;
-};
+  const data = parseWithSchema<Partial<ChapterNotes>>(response.text, CHAPTER_NOTES_SCHEMA);
+  return {
+    summary: data.summary!,
+    characters: data.characters || [],
+    glossary: data.glossary || [],
+  };
+});
 
 /**
  * Generates an image visualizing the chapter summary.
  */
-export const generateChapterImage = async (chapterContent: string): Promise<string> => {
-    const client = getAiClient();
-    if (!client) throw new Error("API_KEY_MISSING");
-
+export const generateChapterImage = (chapterContent: string): Promise<string> => callGemini(async (client) => {
     // 1. First, summarize the scene to get a clean prompt
-    const summaryPrompt = `Describe a single, epic visual scene that represents the climax or summary of this text in 50 words: \n\n${chapterContent.substring(0, 5000)}`;
+    const sceneConfig = getAiTaskConfig('sceneSummary');
+    const summaryPrompt = renderPrompt(sceneConfig.prompt, { content: chapterContent.substring(0, 5000), targetLength: sceneConfig.targetLength });
     
     const summaryResponse = await client.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: summaryPrompt
+        model: sceneConfig.model,
+        contents: summaryPrompt,
+        config: { temperature: sceneConfig.temperature }
     });
+    assertNotBlocked(summaryResponse);
     const sceneDescription = summaryResponse.text;
 
     // 2. Generate the image
+    const imageConfig = getAiTaskConfig('image');
     const response = await client.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+        model: imageConfig.model,
         contents: {
-            parts: [{ text: `Anime style illustration, high quality light novel cover art style, cinematic lighting, 8k resolution: ${sceneDescription}` }]
-        }
+            parts: [{ text: renderPrompt(imageConfig.prompt, { scene: sceneDescription }) }]
+        },
+        config: { temperature: imageConfig.temperature }
     });
+    assertNotBlocked(response);
 
     // Extract base64
     for (const part of response.candidates?.[0]?.content?.parts || []) {
@@ -260,5 +394,14 @@ export const generateChapterImage = async (chapterContent: string): Promise<stri
             return `data:image/png;base64,${part.inlineData.data}`;
         }
     }
-    throw new Error("Failed to generate image");
-};
\ No newline at end of file
+    throw new MalformedResponseError("No image in response.");
+});
+
+export const geminiBackend: AiBackend = {
+  searchNovels,
+  getChapterList,
+  downloadChapterContent,
+  streamChapterContent,
+  summarizeChapter,
+  generateChapterImage,
+};
@@ -0,0 +1,224 @@
+// --- Light-novel Markdown ---
+// Chapter text (generated or imported) is a small Markdown dialect: emphasis for inner
+// thoughts, scene separators, blockquotes, headings, centered system messages such as
+// `[Status Window]` and footnotes. It is parsed into a tree here and rendered by
+// components/MarkdownContent.tsx for the Reader and by `markdownToXhtml` for exports.
+// Raw HTML is never interpreted; it stays literal text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'footnoteRef'; id: string; number: number };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; line: number; children: InlineNode[] }
+  | { type: 'heading'; line: number; level: number; children: InlineNode[] }
+  | { type: 'blockquote'; line: number; children: InlineNode[][] }
+  | { type: 'system'; line: number; children: InlineNode[] }
+  | { type: 'sceneBreak'; line: number };
+
+export interface Footnote {
+  id: string;
+  number: number;
+  children: InlineNode[];
+}
+
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[]; // `line` is the source line index, used as the reading anchor
+  footnotes: Footnote[];
+}
+
+const SCENE_BREAK = /^(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,}|#{3,}|[◇◆○●~=]{3,}|(?:[◇◆○●]\s*){3,})$/;
+const HEADING = /^(#{1,6})\s+(.+)$/;
+const SYSTEM_MESSAGE = /^(?:\[(?!\^)[^\[\]]+\]|【[^【】]+】)$/;
+const FOOTNOTE_DEF = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+
+interface InlineContext {
+  footnoteNumbers: Map<string, number>;
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+// Finds the closing delimiter for an emphasis run that opened just before `from`
+const findClosing = (text: string, delim: string, from: number): number => {
+  let idx = text.indexOf(delim, from);
+  while (idx !== -1) {
+    const before = text[idx - 1];
+    const after = text[idx + delim.length];
+    const flanking = before !== undefined && before !== ' ';
+    // `*` must not be half of a `**`, and `_` must not sit inside a word (snake_case)
+    const single = delim.length > 1 || after !== delim[0];
+    const wordSafe = delim[0] !== '_' || !isWordChar(after);
+    if (flanking && single && wordSafe && idx > from) return idx;
+    idx = text.indexOf(delim, idx + 1);
+  }
+  return -1;
+};
+
+const parseInline = (text: string, ctx: InlineContext): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && /[\\*_\[\]#>\-`]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '[' && text[i + 1] === '^') {
+      const close = text.indexOf(']', i);
+      if (close > i + 2) {
+        const id = text.substring(i + 2, close);
+        if (!ctx.footnoteNumbers.has(id)) ctx.footnoteNumbers.set(id, ctx.footnoteNumbers.size + 1);
+        flush();
+        nodes.push({ type: 'footnoteRef', id, number: ctx.footnoteNumbers.get(id)! });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && !(ch === '_' && isWordChar(text[i - 1]))) {
+      const run = text.startsWith(ch.repeat(3), i) ? 3 : text.startsWith(ch.repeat(2), i) ? 2 : 1;
+      const delim = ch.repeat(run);
+      const start = i + run;
+      const close = text[start] && text[start] !== ' ' ? findClosing(text, delim, start) : -1;
+      if (close !== -1) {
+        const inner = parseInline(text.substring(start, close), ctx);
+        flush();
+        if (run === 1) nodes.push({ type: 'em', children: inner });
+        else if (run === 2) nodes.push({ type: 'strong', children: inner });
+        else nodes.push({ type: 'strong', children: [{ type: 'em', children: inner }] });
+        i = close + run;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses chapter text into blocks. Every non-empty line is its own block, except
+ * consecutive `>` lines which form one blockquote.
+ */
+export const parseMarkdown = (text: string): MarkdownDocument => {
+  const ctx: InlineContext = { footnoteNumbers: new Map() };
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const definitions = new Map<string, string>();
+  const blocks: MarkdownBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const def = line.match(FOOTNOTE_DEF);
+    if (def) {
+      definitions.set(def[1], def[2]);
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: InlineNode[][] = [];
+      const first = i;
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        const inner = lines[i].trim().replace(/^>\s?/, '');
+        if (inner) quoted.push(parseInline(inner, ctx));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'blockquote', line: first, children: quoted });
+      continue;
+    }
+
+    if (SCENE_BREAK.test(line)) {
+      blocks.push({ type: 'sceneBreak', line: i });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', line: i, level: heading[1].length, children: parseInline(heading[2], ctx) });
+      continue;
+    }
+
+    if (SYSTEM_MESSAGE.test(line)) {
+      blocks.push({ type: 'system', line: i, children: parseInline(line, ctx) });
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', line: i, children: parseInline(line, ctx) });
+  }
+
+  // Footnotes in order of first reference; unreferenced definitions go last
+  definitions.forEach((_, id) => {
+    if (!ctx.footnoteNumbers.has(id)) ctx.footnoteNumbers.set(id, ctx.footnoteNumbers.size + 1);
+  });
+  const footnotes: Footnote[] = Array.from(ctx.footnoteNumbers.entries())
+    .filter(([id]) => definitions.has(id))
+    .map(([id, number]) => ({ id, number, children: parseInline(definitions.get(id)!, ctx) }))
+    .sort((a, b) => a.number - b.number);
+
+  return { blocks, footnotes };
+};
+
+/** Plain text of an inline tree (for search, speech and titles). */
+export const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'footnoteRef') return '';
+    return inlineToText(node.children);
+  }).join('');
+
+// --- XHTML output (EPUB export) ---
+
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToXhtml = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeXml(node.text);
+      case 'em': return `<em>${inlineToXhtml(node.children)}</em>`;
+      case 'strong': return `<strong>${inlineToXhtml(node.children)}</strong>`;
+      case 'footnoteRef': return `<sup><a epub:type="noteref" href="#fn-${node.number}" id="fnref-${node.number}">${node.number}</a></sup>`;
+    }
+  }).join('');
+
+/**
+ * Renders chapter Markdown as XHTML body markup (EPUB 3 footnotes use `epub:type`).
+ */
+export const markdownToXhtml = (text: string): string => {
+  const { blocks, footnotes } = parseMarkdown(text);
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph': return `<p>${inlineToXhtml(block.children)}</p>`;
+      case 'heading': {
+        // h1 is reserved for the chapter title
+        const level = Math.min(6, block.level + 1);
+        return `<h${level}>${inlineToXhtml(block.children)}</h${level}>`;
+      }
+      case 'blockquote': return `<blockquote>${block.children.map(p => `<p>${inlineToXhtml(p)}</p>`).join('')}</blockquote>`;
+      case 'system': return `<p class="system">${inlineToXhtml(block.children)}</p>`;
+      case 'sceneBreak': return '<hr class="scene-break"/>';
+    }
+  });
+
+  if (footnotes.length > 0) {
+    body.push(`<section epub:type="footnotes" class="footnotes"><hr/>${footnotes.map(fn =>
+      `<aside epub:type="footnote" id="fn-${fn.number}"><p><a href="#fnref-${fn.number}">${fn.number}.</a> ${inlineToXhtml(fn.children)}</p></aside>`
+    ).join('')}</section>`);
+  }
+  return body.join('\n');
+};
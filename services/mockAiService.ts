@@ -0,0 +1,192 @@
+import { AiBackend, ChapterMetadata, ChapterNotes, Novel } from "../types";
+import { AiFixture, fixtureKeys, hashText, lookupFixture } from "./aiFixtures";
+import { MalformedResponseError } from "./aiErrors";
+import { getAiTaskConfig } from "./aiConfigService";
+import { validateChapterText } from "./geminiService";
+import { nextChapterNumber } from "./chapterListService";
+import { canonicalNovelId } from "./novelIdentity";
+import { escapeXml } from "./markdownService";
+
+// --- Mock AI backend ---
+// Deterministic stand-in for geminiService: the same inputs always produce the same output and
+// nothing touches the network. A fixture (see aiFixtures.ts) can override any response, and its
+// responses go through the same validation as Gemini's, so error paths behave the same way.
+
+// Simulated response time, long enough for loading states to show
+const MOCK_LATENCY = 300;
+const STREAM_CHUNK_DELAY = 40;
+const STREAM_CHUNK_WORDS = 30;
+// Generated chapters stay short whatever the configured target length
+const MAX_MOCK_WORDS = 600;
+// Generated novels run 30-79 chapters, in volumes of 10, so the end of a list can be reached
+const MIN_MOCK_CHAPTERS = 30;
+const MOCK_VOLUME_SIZE = 10;
+
+const NAMES = ['Aria', 'Kaito', 'Liora', 'Ren', 'Sable', 'Tomas', 'Yuki', 'Zephyr'];
+const PLACES = ['Ashen Keep', 'the Azure Academy', 'Duskmere', 'the Hollow Spire', 'Ironvale', 'the Verdant Gate'];
+const ADJECTIVES = ['Azure', 'Broken', 'Crimson', 'Eternal', 'Forgotten', 'Hidden', 'Silent', 'Wandering'];
+const NOUNS = ['Blade', 'Crown', 'Dungeon', 'Covenant', 'Oath', 'Sky', 'Throne', 'Witch'];
+const TAGS = ['Action', 'Adventure', 'Comedy', 'Drama', 'Fantasy', 'Isekai', 'Mystery', 'Romance'];
+
+// mulberry32: a tiny seeded PRNG, so generated content is stable across runs
+const seededRandom = (seed: string) => {
+  let state = hashText(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error("GENERATION_CANCELLED"));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new Error("GENERATION_CANCELLED"));
+  }, { once: true });
+});
+
+const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+// Offline placeholder art (covers and scene images) as a data: URL
+const placeholderImage = (label: string, width: number, height: number) => {
+  const hue = hashText(label) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue},45%,22%)"/>`
+    + `<text x="50%" y="50%" fill="hsl(${hue},70%,80%)" font-family="sans-serif" font-size="${Math.round(width / 14)}" text-anchor="middle">${escapeXml(label.slice(0, 28))}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;base64,${toBase64(svg)}`;
+};
+
+const mockNovel = (query: string, index: number): Novel => {
+  const random = seededRandom(`${query}#${index}`);
+  const title = `${pick(random, ADJECTIVES)} ${pick(random, NOUNS)} of ${query.trim() || pick(random, PLACES)}`;
+  const author = `${pick(random, NAMES)} ${pick(random, NOUNS)}`;
+  return {
+    id: canonicalNovelId(title, author),
+    title,
+    author,
+    description: `A story of ${pick(random, NAMES)} and the ${pick(random, ADJECTIVES).toLowerCase()} ${pick(random, NOUNS).toLowerCase()} of ${pick(random, PLACES)}.`,
+    status: random() < 0.5 ? 'Ongoing' : 'Completed',
+    tags: [pick(random, TAGS), pick(random, TAGS)].filter((tag, i, tags) => tags.indexOf(tag) === i),
+    coverUrl: placeholderImage(title, 300, 450),
+  };
+};
+
+const mockChapterTitle = (novelTitle: string, chapterNumber: number) => {
+  if (chapterNumber === 1) return 'Prologue';
+  const random = seededRandom(`${novelTitle}#title${chapterNumber}`);
+  return `The ${pick(random, ADJECTIVES)} ${pick(random, NOUNS)}`;
+};
+
+const mockChapterCount = (novelTitle: string) =>
+  MIN_MOCK_CHAPTERS + Math.floor(seededRandom(`${novelTitle}#length`)() * 50);
+
+const mockVolume = (novelTitle: string, chapterNumber: number) => {
+  const volume = Math.ceil(chapterNumber / MOCK_VOLUME_SIZE);
+  const random = seededRandom(`${novelTitle}#volume${volume}`);
+  return `Volume ${volume}: ${pick(random, ADJECTIVES)} ${pick(random, NOUNS)}`;
+};
+
+// Markdown in the shape the chapter prompt asks for: dialogue, thoughts, a system line and a scene break
+const mockChapterText = (novelTitle: string, chapterNumber: number, chapterTitle: string) => {
+  const random = seededRandom(`${novelTitle}#${chapterNumber}`);
+  const words = Math.min(MAX_MOCK_WORDS, Math.max(120, getAiTaskConfig('chapterText').targetLength));
+  const hero = pick(random, NAMES);
+  const paragraphs: string[] = [
+    `${hero} stood at the edge of ${pick(random, PLACES)} as chapter ${chapterNumber}, "${chapterTitle}", began.`,
+  ];
+  let count = paragraphs[0].split(' ').length;
+  while (count < words) {
+    const other = pick(random, NAMES.filter(n => n !== hero));
+    const roll = random();
+    const paragraph = roll < 0.35
+      ? `"Have you seen the ${pick(random, ADJECTIVES).toLowerCase()} ${pick(random, NOUNS).toLowerCase()}?" ${other} asked. "${hero}, we don't have much time."`
+      : roll < 0.55
+        ? `*This is ${pick(random, ['wrong', 'my chance', 'just like before', 'too easy'])},* ${hero} thought.`
+        : roll < 0.62
+          ? `[${pick(random, ['Skill Acquired', 'Quest Updated', 'Status Window', 'Level Up'])}: ${pick(random, ADJECTIVES)} ${pick(random, NOUNS)}]`
+          : `The wind over ${pick(random, PLACES)} carried the smell of rain. ${other} drew a ${pick(random, NOUNS).toLowerCase()} and waited, watching ${hero} without a word.`;
+    paragraphs.push(paragraph);
+    count += paragraph.split(' ').length;
+    if (paragraphs.length === 8) paragraphs.push('---');
+  }
+  return paragraphs.join('\n\n');
+};
+
+const chapterText = (fixture: AiFixture | null, novelTitle: string, chapterNumber: number, chapterTitle: string) =>
+  lookupFixture(fixture, 'chapterText', fixtureKeys.chapter(novelTitle, chapterNumber))
+    ?? mockChapterText(novelTitle, chapterNumber, chapterTitle);
+
+/**
+ * Creates the mock backend. `getFixture` is read on every call, so a fixture can be swapped
+ * (or removed) at any time.
+ */
+export const createMockBackend = (getFixture: () => AiFixture | null): AiBackend => ({
+  searchNovels: async (query) => {
+    await wait(MOCK_LATENCY);
+    const recorded = lookupFixture(getFixture(), 'search', fixtureKeys.search(query));
+    if (recorded) return recorded;
+    return Array.from({ length: getAiTaskConfig('search').targetLength }, (_, i) => mockNovel(query, i));
+  },
+
+  getChapterList: async (novel, known): Promise<ChapterMetadata[]> => {
+    await wait(MOCK_LATENCY);
+    const start = nextChapterNumber(known);
+    const recorded = lookupFixture(getFixture(), 'chapterList', fixtureKeys.chapterList(novel.title, start));
+    if (recorded) return recorded;
+    const end = Math.min(mockChapterCount(novel.title), start + getAiTaskConfig('chapterList').targetLength - 1);
+    return Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => ({
+      id: (start + i).toString(),
+      novelId: novel.id,
+      title: mockChapterTitle(novel.title, start + i),
+      chapterNumber: start + i,
+      volume: mockVolume(novel.title, start + i),
+    }));
+  },
+
+  downloadChapterContent: async (novelTitle, chapterNumber, chapterTitle) => {
+    await wait(MOCK_LATENCY);
+    return validateChapterText(chapterText(getFixture(), novelTitle, chapterNumber, chapterTitle));
+  },
+
+  streamChapterContent: async function* (novelTitle, chapterNumber, chapterTitle, _storyContext, signal) {
+    const text = chapterText(getFixture(), novelTitle, chapterNumber, chapterTitle);
+    const words = text.split(' ');
+    for (let i = STREAM_CHUNK_WORDS; i < words.length + STREAM_CHUNK_WORDS; i += STREAM_CHUNK_WORDS) {
+      await wait(STREAM_CHUNK_DELAY, signal);
+      yield words.slice(0, i).join(' ');
+    }
+    return validateChapterText(text);
+  },
+
+  summarizeChapter: async (novelTitle, chapterNumber, _chapterTitle, content): Promise<ChapterNotes> => {
+    await wait(MOCK_LATENCY);
+    const recorded = lookupFixture(getFixture(), 'chapterNotes', fixtureKeys.chapter(novelTitle, chapterNumber));
+    if (recorded) return recorded;
+    const firstParagraph = content.split('\n').find(line => line.trim()) || '';
+    return {
+      summary: `Chapter ${chapterNumber}: ${firstParagraph.slice(0, 200)}`,
+      characters: NAMES.filter(name => content.includes(name))
+        .map(name => ({ name, description: `Appears in chapter ${chapterNumber}.` })),
+      glossary: PLACES.filter(place => content.includes(place))
+        .map(place => ({ term: place.replace(/^the /, ''), definition: `A place visited in chapter ${chapterNumber}.` })),
+    };
+  },
+
+  generateChapterImage: async (chapterContent) => {
+    await wait(MOCK_LATENCY);
+    const recorded = lookupFixture(getFixture(), 'image', fixtureKeys.image(chapterContent));
+    if (recorded === null) throw new MalformedResponseError("No image in response.");
+    return recorded ?? placeholderImage(chapterContent.split(/\s+/).slice(0, 4).join(' '), 512, 512);
+  },
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createNarrator, narrationQueue } from './narrationService';
+import { parseMarkdown } from './markdownService';
+
+// jsdom has no speech synthesis: utterances are collected and finished by hand
+class FakeUtterance {
+  voice: unknown = null;
+  rate = 1;
+  pitch = 1;
+  onend: (() => void) | null = null;
+  onerror: ((e: { error: string }) => void) | null = null;
+  constructor(public text: string) {}
+}
+
+let spoken: FakeUtterance[] = [];
+const finish = () => spoken[spoken.length - 1].onend?.();
+
+beforeEach(() => {
+  spoken = [];
+  vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  vi.stubGlobal('speechSynthesis', {
+    speak: (u: FakeUtterance) => spoken.push(u),
+    cancel: vi.fn(),
+    getVoices: () => [{ voiceURI: 'kyoko', name: 'Kyoko', lang: 'ja-JP' }],
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const doc = parseMarkdown(['# Chapter 1', '', 'The gate *opened*.[^1]', '', '***', '', '> Run.', '> Now.', '', '[^1]: At dawn.'].join('\n'));
+
+describe('narrationQueue', () => {
+  it('reads the text of each block, skipping scene breaks and footnote markers', () => {
+    expect(narrationQueue(doc, 0)).toEqual([
+      { paragraph: 0, text: 'Chapter 1' },
+      { paragraph: 2, text: 'The gate opened.' },
+      { paragraph: 6, text: 'Run.\nNow.' },
+    ]);
+  });
+
+  it('starts at the block containing the position', () => {
+    expect(narrationQueue(doc, 3).map(item => item.paragraph)).toEqual([2, 6]);
+  });
+});
+
+describe('createNarrator', () => {
+  const options = { voice: 'kyoko', rate: 1.5, pitch: 0.8 };
+
+  it('speaks paragraph by paragraph and reports progress and the end', () => {
+    const onParagraph = vi.fn();
+    const onEnd = vi.fn();
+    const narrator = createNarrator(() => options, { onParagraph, onEnd });
+
+    narrator.play(narrationQueue(doc, 0));
+    expect(spoken.map(u => u.text)).toEqual(['Chapter 1']);
+    expect(spoken[0]).toMatchObject({ rate: 1.5, pitch: 0.8, voice: { voiceURI: 'kyoko' } });
+
+    finish();
+    finish();
+    expect(onParagraph.mock.calls.map(([p]) => p)).toEqual([0, 2, 6]);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    finish();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the current paragraph on resume and ignores the cancelled utterance', () => {
+    const onParagraph = vi.fn();
+    const narrator = createNarrator(() => options, { onParagraph, onEnd: vi.fn() });
+
+    narrator.play(narrationQueue(doc, 2));
+    const cancelled = spoken[0];
+    narrator.pause();
+    cancelled.onerror?.({ error: 'interrupted' });
+    cancelled.onend?.();
+    expect(spoken).toHaveLength(1);
+
+    narrator.resume();
+    expect(spoken.map(u => u.text)).toEqual(['The gate opened.', 'The gate opened.']);
+    expect(onParagraph.mock.calls.map(([p]) => p)).toEqual([2, 2]);
+  });
+
+  it('does nothing on resume after stop', () => {
+    const onEnd = vi.fn();
+    const narrator = createNarrator(() => options, { onParagraph: vi.fn(), onEnd });
+    narrator.play(narrationQueue(doc, 0));
+    narrator.stop();
+    narrator.resume();
+    expect(spoken).toHaveLength(1);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { MarkdownDocument } from "./markdownService";
+import { blockText } from "./annotationService";
+
+// --- Narration (text-to-speech) ---
+// Chapters are read aloud one paragraph per utterance through the Web Speech API. Short
+// utterances let the Reader follow along paragraph by paragraph, and avoid browsers that stop
+// speaking partway through long texts.
+
+export interface NarrationItem {
+  paragraph: number; // source line, as in `data-paragraph`
+  text: string;
+}
+
+export interface NarrationOptions {
+  voice: string; // voiceURI ('' = browser default)
+  rate: number;
+  pitch: number;
+}
+
+export interface Narrator {
+  /** Starts reading the items from the first one, replacing anything being read. */
+  play: (items: NarrationItem[]) => void;
+  /** Stops speaking but remembers the paragraph; resume() starts it over. */
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+export const isNarrationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+export const getNarrationVoices = (): SpeechSynthesisVoice[] =>
+  isNarrationSupported() ? window.speechSynthesis.getVoices() : [];
+
+/**
+ * Paragraphs to read, starting with the one containing `fromParagraph`. Scene breaks and empty
+ * blocks are skipped; the paragraphs of a quote are read with a pause between them.
+ */
+export const narrationQueue = (document: MarkdownDocument, fromParagraph: number): NarrationItem[] => {
+  const start = document.blocks.filter(b => b.line <= fromParagraph).pop()?.line ?? 0;
+  return document.blocks
+    .filter(block => block.line >= start)
+    .map(block => ({ paragraph: block.line, text: blockText(block) }))
+    .filter(item => item.text.trim().length > 0);
+};
+
+/**
+ * Reads paragraphs aloud in order. `onParagraph` fires as each one starts and `onEnd` once the
+ * last one finished; options are read per paragraph, so voice and speed changes apply from the
+ * next one.
+ */
+export const createNarrator = (
+  getOptions: () => NarrationOptions,
+  handlers: { onParagraph: (paragraph: number) => void; onEnd: () => void },
+): Narrator => {
+  let items: NarrationItem[] = [];
+  let index = 0;
+  // Utterances cancelled by pause/stop/play still fire their end events; only the current run counts
+  let run = 0;
+
+  const speak = () => {
+    const current = run;
+    const item = items[index];
+    if (!item) {
+      handlers.onEnd();
+      return;
+    }
+    const { voice, rate, pitch } = getOptions();
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    utterance.voice = getNarrationVoices().find(v => v.voiceURI === voice) || null;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.onend = () => {
+      if (current !== run) return;
+      index++;
+      speak();
+    };
+    utterance.onerror = (e) => {
+      if (current !== run || e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error("Narration failed", e.error);
+      index++;
+      speak();
+    };
+    handlers.onParagraph(item.paragraph);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const cancel = () => {
+    run++;
+    window.speechSynthesis.cancel();
+  };
+
+  return {
+    play: (next) => {
+      cancel();
+      items = next;
+      index = 0;
+      speak();
+    },
+    pause: cancel,
+    resume: () => {
+      if (items.length === 0) return;
+      cancel();
+      speak();
+    },
+    stop: () => {
+      cancel();
+      items = [];
+      index = 0;
+    },
+  };
+};
+
+export interface NarrationControls {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  next: () => void;
+  previous: () => void;
+}
+
+const MEDIA_ACTIONS: [MediaSessionAction, keyof NarrationControls][] = [
+  ['play', 'play'], ['pause', 'pause'], ['stop', 'stop'], ['nexttrack', 'next'], ['previoustrack', 'previous'],
+];
+
+/**
+ * Shows what is being narrated in the system media controls (notification, lock screen) and
+ * routes their buttons to the Reader. Pass null to hand the controls back.
+ */
+export const setNarrationMediaSession = (
+  session: { title: string; artist: string; artwork?: string; playing: boolean; controls: NarrationControls } | null,
+) => {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+  const media = navigator.mediaSession;
+  const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+    try {
+      media.setActionHandler(action, handler);
+    } catch {
+      // Browsers throw for actions they don't support
+    }
+  };
+  if (!session) {
+    media.metadata = null;
+    media.playbackState = 'none';
+    MEDIA_ACTIONS.forEach(([action]) => setHandler(action, null));
+    return;
+  }
+  media.metadata = new MediaMetadata({
+    title: session.title,
+    artist: session.artist,
+    artwork: session.artwork ? [{ src: session.artwork }] : [],
+  });
+  media.playbackState = session.playing ? 'playing' : 'paused';
+  MEDIA_ACTIONS.forEach(([action, control]) => setHandler(action, () => session.controls[control]()));
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalNovelId, findDuplicate, findDuplicateGroups, isSameNovel, mergeLibraryItems, pickMergeTarget } from './novelIdentity';
+import { LibraryItem } from '../types';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const novel = (id: string, title: string, author: string, overrides: Partial<LibraryItem> = {}) =>
+  makeNovel(id, { title, author, downloaded: false, ...overrides });
+
+describe('canonicalNovelId', () => {
+  it('ignores case, accents, punctuation and author name order', () => {
+    expect(canonicalNovelId('Re:Zero − Starting Life in Another World', 'Tappei Nagatsuki'))
+      .toBe(canonicalNovelId('re zero starting life in another world', 'NAGATSUKI, Tappei'));
+    expect(canonicalNovelId('Mushoku Tensei', 'Rifujin na Magonote')).toBe('novel_mushoku-tensei--magonote-na-rifujin');
+    expect(canonicalNovelId('Café Terrace')).toBe(canonicalNovelId('Cafe Terrace'));
+  });
+
+  it('leaves unknown authors out', () => {
+    expect(canonicalNovelId('Overlord', 'Unknown')).toBe('novel_overlord');
+  });
+
+  it('keeps non-Latin titles', () => {
+    expect(canonicalNovelId('転生したらスライムだった件')).toBe('novel_転生したらスライムだった件');
+  });
+});
+
+describe('isSameNovel', () => {
+  it('matches spelling variants of the same series', () => {
+    expect(isSameNovel(novel('a', 'The Beginning After the End', 'TurtleMe'), novel('b', 'Beginning After The End (Web Novel)', 'Turtle Me'))).toBe(true);
+    expect(isSameNovel(novel('a', 'Lord of the Mysteries', 'Cuttlefish That Loves Diving'), novel('b', 'Lord of Mysteries', 'Unknown'))).toBe(true);
+  });
+
+  it('keeps sequels and same-titled works by other authors apart', () => {
+    expect(isSameNovel(novel('a', 'Overlord', 'Kugane Maruyama'), novel('b', 'Overlord 2', 'Kugane Maruyama'))).toBe(false);
+    expect(isSameNovel(novel('a', 'Overlord', 'Kugane Maruyama'), novel('b', 'Overlord', 'Someone Else'))).toBe(false);
+  });
+});
+
+describe('findDuplicate / findDuplicateGroups', () => {
+  const library = [
+    novel('1', 'Solo Leveling', 'Chugong'),
+    novel('2', 'Omniscient Reader', 'Sing Shong'),
+    novel('3', 'Solo-Leveling', 'chugong'),
+    novel('4', 'Omniscient Reader (Novel)', 'Sing-Shong'),
+    novel('5', 'Trash of the Count\'s Family', 'Yu Ryeo Han'),
+  ];
+
+  it('finds the entry a search result duplicates', () => {
+    expect(findDuplicate(library, novel('x', 'SOLO LEVELING', 'Chugong'))?.id).toBe('1');
+    expect(findDuplicate(library, novel('x', 'Solo Leveling: Ragnarok', 'Chugong'))).toBeUndefined();
+  });
+
+  it('groups duplicates and leaves single entries out', () => {
+    expect(findDuplicateGroups(library).map(g => g.map(n => n.id))).toEqual([['1', '3'], ['2', '4']]);
+  });
+});
+
+describe('pickMergeTarget', () => {
+  it('prefers the canonical id, then the longest chapter list', () => {
+    const canonical = novel(canonicalNovelId('Solo Leveling', 'Chugong'), 'Solo Leveling', 'Chugong');
+    const longer = novel('old', 'Solo Leveling', 'Chugong', { chapters: [1, 2, 3].map(n => makeChapter('old', n)) });
+    expect(pickMergeTarget([longer, canonical]).id).toBe(canonical.id);
+    expect(pickMergeTarget([novel('a', 'X', 'Y'), longer]).id).toBe('old');
+  });
+});
+
+describe('mergeLibraryItems', () => {
+  it('adds missing chapters and keeps the furthest reading progress', () => {
+    const target = novel('t', 'Novel', 'Author', { savedAt: 200, lastReadChapterId: '1', hasMoreChapters: false });
+    const dup = novel('d', 'Novel', 'Author', {
+      savedAt: 100,
+      chapters: [makeChapter('d', 2), makeChapter('d', 3), { ...makeChapter('d', 4), id: '1' }],
+      lastReadChapterId: '3',
+      newChapterIds: ['3', '1'],
+    });
+
+    const merged = mergeLibraryItems(target, [dup]);
+
+    expect(merged.id).toBe('t');
+    expect(merged.chapters.map(c => [c.chapterNumber, c.id, c.novelId])).toEqual([[1, '1', 't'], [2, '2', 't'], [3, '3', 't'], [4, 'd_1', 't']]);
+    expect(merged.totalChapters).toBe(4);
+    expect(merged.lastReadChapterId).toBe('3');
+    expect(merged.newChapterIds).toEqual(['d_1']);
+    expect(merged.savedAt).toBe(100);
+    expect(merged.hasMoreChapters).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { ChapterMetadata, LibraryItem, Novel } from "../types";
+
+// --- Novel identity ---
+// Search results are written by a model, so the same series comes back with different spacing,
+// punctuation and author spellings on every search. Ids are derived from the normalized title and
+// author instead, and entries whose titles and authors are close enough count as the same novel.
+
+// Similarity (Dice coefficient over letter pairs) from which two titles or authors count as the same
+const SIMILARITY_THRESHOLD = 0.85;
+const UNKNOWN_AUTHORS = new Set(['', 'unknown', 'anonymous', 'various']);
+
+// Lowercase letters and digits of any script, single-spaced; Latin accents and punctuation dropped
+// (other marks, like Japanese dakuten, change the word and stay)
+const normalize = (text: string) =>
+  text.normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Bracketed notes like "(Light Novel)" or "[WN]" and articles don't change which series it is
+const normalizeTitle = (title: string) =>
+  normalize(title.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')).replace(/\b(the|a|an) /g, '');
+
+// "Overlord" and "Overlord 2" are nearly identical strings but different books
+const titleNumbers = (title: string) => (title.match(/\p{N}+/gu) || []).join(' ');
+
+// Name order varies between sources ("Maruyama Kugane" / "Kugane Maruyama")
+const normalizeAuthor = (author?: string) => {
+  const name = normalize(author || '');
+  return UNKNOWN_AUTHORS.has(name) ? '' : name.split(' ').sort().join(' ');
+};
+
+const letterPairs = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  return pairs;
+};
+
+/** 0..1 similarity of two normalized strings. */
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const pairsA = letterPairs(a);
+  const pairsB = letterPairs(b);
+  const total = [...pairsA.values(), ...pairsB.values()].reduce((sum, n) => sum + n, 0);
+  if (total === 0) return 0;
+  let shared = 0;
+  pairsA.forEach((count, pair) => { shared += Math.min(count, pairsB.get(pair) || 0); });
+  return (2 * shared) / total;
+};
+
+/**
+ * Deterministic id for a novel: the same title and author always give the same id, whatever
+ * their case, accents or punctuation.
+ */
+export const canonicalNovelId = (title: string, author?: string): string => {
+  const slug = (text: string) => text.replace(/ /g, '-');
+  const authorPart = normalizeAuthor(author);
+  return `novel_${slug(normalize(title)) || 'untitled'}${authorPart ? `--${slug(authorPart)}` : ''}`;
+};
+
+/** True when two entries are (very probably) the same series. An unknown author matches any author. */
+export const isSameNovel = (a: Novel, b: Novel): boolean => {
+  if (a.id === b.id) return true;
+  const authorA = normalizeAuthor(a.author);
+  const authorB = normalizeAuthor(b.author);
+  if (authorA && authorB && similarity(authorA, authorB) < SIMILARITY_THRESHOLD) return false;
+  const titleA = normalizeTitle(a.title);
+  const titleB = normalizeTitle(b.title);
+  return titleNumbers(titleA) === titleNumbers(titleB) && similarity(titleA, titleB) >= SIMILARITY_THRESHOLD;
+};
+
+/** The library entry that `novel` duplicates, if any. */
+export const findDuplicate = (library: LibraryItem[], novel: Novel): LibraryItem | undefined =>
+  library.find(item => item.id === novel.id) || library.find(item => isSameNovel(item, novel));
+
+/** Groups of library entries that are the same series (only groups with more than one entry). */
+export const findDuplicateGroups = (library: LibraryItem[]): LibraryItem[][] => {
+  const groups: LibraryItem[][] = [];
+  library.forEach(item => {
+    const group = groups.find(g => isSameNovel(g[0], item));
+    if (group) group.push(item);
+    else groups.push([item]);
+  });
+  return groups.filter(g => g.length > 1);
+};
+
+/**
+ * The entry a merge keeps: one that already has its canonical id, then the one with the longest
+ * chapter list, then the oldest.
+ */
+export const pickMergeTarget = (group: LibraryItem[]): LibraryItem =>
+  [...group].sort((a, b) =>
+    Number(b.id === canonicalNovelId(b.title, b.author)) - Number(a.id === canonicalNovelId(a.title, a.author))
+    || b.chapters.length - a.chapters.length
+    || a.savedAt - b.savedAt
+  )[0];
+
+/**
+ * Folds duplicates into `target`: chapters it lacks are added, the furthest reading progress and
+ * any new-chapter flags are carried over. Stored chapter data is moved separately (moveNovelData).
+ */
+export const mergeLibraryItems = (target: LibraryItem, duplicates: LibraryItem[]): LibraryItem => {
+  const all = [target, ...duplicates];
+  const byNumber = new Map<number, ChapterMetadata>(target.chapters.map(c => [c.chapterNumber, c]));
+  const ids = new Set(target.chapters.map(c => c.id));
+  duplicates.forEach(dup => dup.chapters.forEach(c => {
+    if (byNumber.has(c.chapterNumber)) return;
+    const id = ids.has(c.id) ? `${dup.id}_${c.id}` : c.id;
+    ids.add(id);
+    byNumber.set(c.chapterNumber, { ...c, id, novelId: target.id });
+  }));
+  const chapters = [...byNumber.values()].sort((a, b) => a.chapterNumber - b.chapterNumber);
+
+  // Chapter numbers are what the entries have in common; map each entry's ids through them
+  const numberOf = (item: LibraryItem, id?: string) => item.chapters.find(c => c.id === id)?.chapterNumber;
+  const idOf = (chapterNumber: number) => byNumber.get(chapterNumber)!.id;
+  const lastRead = all
+    .map(item => numberOf(item, item.lastReadChapterId))
+    .filter((n): n is number => n !== undefined)
+    .sort((a, b) => b - a)[0];
+  const newChapters = new Set(all.flatMap(item => (item.newChapterIds || []).map(id => numberOf(item, id)))
+    .filter((n): n is number => n !== undefined && (lastRead === undefined || n > lastRead)));
+
+  return {
+    ...target,
+    chapters,
+    totalChapters: chapters.length,
+    savedAt: Math.min(...all.map(item => item.savedAt)),
+    lastReadChapterId: lastRead !== undefined ? idOf(lastRead) : target.lastReadChapterId,
+    newChapterIds: [...newChapters].sort((a, b) => a - b).map(idOf),
+    hasMoreChapters: !all.every(item => item.hasMoreChapters === false),
+  };
+};
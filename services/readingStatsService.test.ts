@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeReadingStats, countWords, createSessionTracker, formatReadingTime, IDLE_LIMIT } from './readingStatsService';
+import { ReadingSession } from '../types';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const MINUTE = 60 * 1000;
+
+const at = (day: number, hour = 12, minute = 0) => new Date(2026, 2, day, hour, minute).getTime();
+
+const session = (novelId: string, chapterNumber: number, startedAt: number, minutes: number, progress = 100, words = 1000): ReadingSession => ({
+  id: `${novelId}_${chapterNumber}_${startedAt}`,
+  novelId,
+  chapterNumber,
+  startedAt,
+  endedAt: startedAt + minutes * MINUTE,
+  progress,
+  words,
+});
+
+const novel = (id: string, chapterCount: number) =>
+  makeNovel(id, { chapters: Array.from({ length: chapterCount }, (_, i) => makeChapter(id, i + 1)) });
+
+describe('countWords', () => {
+  it('counts words and skips markdown symbols', () => {
+    expect(countWords('# Chapter 1\n\n**Sung Jin-Woo** didn\'t move — at all.\n\n---')).toBe(8);
+  });
+});
+
+describe('createSessionTracker', () => {
+  it('logs a session from the first activity to the end with the furthest progress', () => {
+    const onSession = vi.fn();
+    const tracker = createSessionTracker('n', 3, onSession);
+
+    tracker.activity(0, 500, 1000);
+    tracker.activity(60, 500, 31000);
+    tracker.activity(40, 520, 61000);
+    tracker.end(91000);
+
+    expect(onSession).toHaveBeenCalledWith({ id: 'n_ch3_1000', novelId: 'n', chapterNumber: 3, startedAt: 1000, endedAt: 91000, progress: 60, words: 520 });
+  });
+
+  it('drops sessions that are too short to be reading', () => {
+    const onSession = vi.fn();
+    const tracker = createSessionTracker('n', 1, onSession);
+    tracker.activity(100, 500, 1000);
+    tracker.end(3000);
+    expect(onSession).not.toHaveBeenCalled();
+  });
+
+  it('splits the session at an idle gap and does not count the gap', () => {
+    const onSession = vi.fn();
+    const tracker = createSessionTracker('n', 1, onSession);
+
+    tracker.activity(10, 500, 0);
+    tracker.activity(20, 500, MINUTE);
+    tracker.activity(30, 500, MINUTE + IDLE_LIMIT + 1);
+    tracker.end(2 * MINUTE + IDLE_LIMIT);
+
+    expect(onSession.mock.calls.map(([s]) => [s.startedAt, s.endedAt, s.progress])).toEqual([
+      [0, MINUTE + IDLE_LIMIT, 20],
+      [MINUTE + IDLE_LIMIT + 1, 2 * MINUTE + IDLE_LIMIT, 30],
+    ]);
+  });
+
+  it('starts a new session on activity after the tab came back', () => {
+    const onSession = vi.fn();
+    const tracker = createSessionTracker('n', 1, onSession);
+    tracker.activity(10, 500, 0);
+    tracker.end(MINUTE);
+    tracker.activity(10, 500, 2 * MINUTE);
+    tracker.end(3 * MINUTE);
+    expect(onSession).toHaveBeenCalledTimes(2);
+    expect(onSession.mock.calls[1][0].startedAt).toBe(2 * MINUTE);
+  });
+});
+
+describe('computeReadingStats', () => {
+  const now = new Date(at(10, 20));
+
+  it('adds up time per day over the chart range', () => {
+    const stats = computeReadingStats([
+      session('a', 1, at(10, 8), 20),
+      session('a', 2, at(10, 9), 10),
+      session('a', 3, at(9), 15),
+      session('a', 4, at(1), 5), // before the chart range, still counted in the total
+    ], [novel('a', 10)], now);
+
+    expect(stats.days).toHaveLength(14);
+    expect(stats.days[13]).toEqual({ date: '2026-03-10', time: 30 * MINUTE });
+    expect(stats.days[12]).toEqual({ date: '2026-03-09', time: 15 * MINUTE });
+    expect(stats.days[0].date).toBe('2026-02-25');
+    expect(stats.totalTime).toBe(50 * MINUTE);
+  });
+
+  it('counts finished chapters and words by the furthest progress per chapter', () => {
+    const stats = computeReadingStats([
+      session('a', 1, at(10, 8), 10, 40, 2000),
+      session('a', 1, at(10, 9), 10, 100, 2000),
+      session('a', 2, at(10, 10), 10, 50, 1000),
+      session('b', 1, at(10, 11), 10, 96, 500),
+    ], [novel('a', 4), novel('b', 2), novel('c', 3)], now);
+
+    expect(stats.chaptersFinished).toBe(2);
+    expect(stats.wordsRead).toBe(2000 + 500 + 480);
+    expect(stats.novels).toEqual([
+      { novelId: 'b', title: 'Novel b', finished: 1, total: 2, percent: 50 },
+      { novelId: 'a', title: 'Novel a', finished: 1, total: 4, percent: 25 },
+    ]);
+  });
+
+  it('tracks the current and longest streak', () => {
+    const days = [1, 2, 3, 4, 7, 8, 9];
+    const stats = computeReadingStats(days.map(d => session('a', d, at(d), 10)), [], now);
+    // Not read yet on the 10th: the streak up to yesterday still counts
+    expect(stats.currentStreak).toBe(3);
+    expect(stats.longestStreak).toBe(4);
+
+    const broken = computeReadingStats([session('a', 1, at(8), 10)], [], now);
+    expect(broken.currentStreak).toBe(0);
+    expect(broken.longestStreak).toBe(1);
+  });
+});
+
+describe('formatReadingTime', () => {
+  it('formats minutes and hours', () => {
+    expect(formatReadingTime(20 * 1000)).toBe('<1m');
+    expect(formatReadingTime(12 * MINUTE)).toBe('12m');
+    expect(formatReadingTime(125 * MINUTE)).toBe('2h 05m');
+  });
+});
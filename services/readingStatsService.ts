@@ -0,0 +1,155 @@
+import { LibraryItem, ReadingSession } from "../types";
+
+// --- Reading history ---
+// The Reader logs a session for each stretch of reading in a chapter: when it started and ended
+// and how far into the chapter it got. Statistics are computed from that log when shown.
+
+// Progress (percent) from which a chapter counts as finished
+export const FINISHED_PROGRESS = 95;
+
+// Without a scroll or page turn for this long the reader is assumed to have stopped; the session
+// ends at the last activity plus this grace period
+export const IDLE_LIMIT = 2 * 60 * 1000;
+
+// Shorter sessions (flicking through chapters) are not logged
+export const MIN_SESSION = 5 * 1000;
+
+// Days covered by the daily reading time chart
+export const STATS_DAYS = 14;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Words in a chapter's text, ignoring markdown symbols. */
+export const countWords = (text: string): number => (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).length;
+
+export interface SessionTracker {
+  /** Reader activity (scroll, page turn) with the current progress in percent. */
+  activity: (progress: number, words: number, now?: number) => void;
+  /** Closes the open session, e.g. when the chapter is left or the tab is hidden. */
+  end: (now?: number) => void;
+}
+
+/**
+ * Tracks reading in one chapter. Activity after the session was ended or after an idle gap opens
+ * a new session; closed sessions that are long enough are passed to `onSession`.
+ */
+export const createSessionTracker = (novelId: string, chapterNumber: number, onSession: (session: ReadingSession) => void): SessionTracker => {
+  let session: ReadingSession | null = null;
+  let lastActivity = 0;
+
+  const close = (now: number) => {
+    if (!session) return;
+    const closed = { ...session, endedAt: Math.min(now, lastActivity + IDLE_LIMIT) };
+    session = null;
+    if (closed.endedAt - closed.startedAt >= MIN_SESSION) onSession(closed);
+  };
+
+  return {
+    activity: (progress, words, now = Date.now()) => {
+      if (session && now - lastActivity > IDLE_LIMIT) close(now);
+      if (!session) {
+        session = { id: `${novelId}_ch${chapterNumber}_${now}`, novelId, chapterNumber, startedAt: now, endedAt: now, progress: 0, words };
+      }
+      session = { ...session, progress: Math.max(session.progress, Math.min(100, progress)), words };
+      lastActivity = now;
+    },
+    end: (now = Date.now()) => close(now),
+  };
+};
+
+// --- Statistics ---
+
+export interface DailyReading {
+  date: string; // local day, YYYY-MM-DD
+  time: number; // ms read that day
+}
+
+export interface NovelCompletion {
+  novelId: string;
+  title: string;
+  finished: number; // chapters finished
+  total: number; // chapters known
+  percent: number; // 0..100
+}
+
+export interface ReadingStats {
+  days: DailyReading[]; // the last STATS_DAYS days, oldest first
+  totalTime: number; // ms, all time
+  chaptersFinished: number;
+  wordsRead: number; // chapter words times the furthest progress reached in each chapter
+  currentStreak: number; // consecutive days read, up to today (or yesterday, if not read yet today)
+  longestStreak: number;
+  novels: NovelCompletion[]; // library novels with any history, most complete first
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const shiftDays = (date: Date, days: number) => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+/** Sessions are counted on the day they started. */
+export const computeReadingStats = (sessions: ReadingSession[], library: LibraryItem[], now = new Date()): ReadingStats => {
+  const timeByDay = new Map<string, number>();
+  const furthest = new Map<string, ReadingSession>(); // per chapter, the session that got furthest
+  sessions.forEach(session => {
+    const day = dayKey(new Date(session.startedAt));
+    timeByDay.set(day, (timeByDay.get(day) || 0) + Math.max(0, session.endedAt - session.startedAt));
+    const key = `${session.novelId}_ch${session.chapterNumber}`;
+    const best = furthest.get(key);
+    if (!best || session.progress > best.progress) furthest.set(key, session);
+  });
+
+  const finished = [...furthest.values()].filter(s => s.progress >= FINISHED_PROGRESS);
+
+  let currentStreak = 0;
+  for (let day = timeByDay.has(dayKey(now)) ? now : shiftDays(now, -1); timeByDay.has(dayKey(day)); day = shiftDays(day, -1)) {
+    currentStreak++;
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: number | null = null;
+  [...timeByDay.keys()].sort().forEach(key => {
+    const [y, m, d] = key.split('-').map(Number);
+    const time = new Date(y, m - 1, d).getTime();
+    // Rounded, so a daylight saving change doesn't break the run
+    run = previous !== null && Math.round((time - previous) / DAY) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = time;
+  });
+
+  const novels = library
+    .filter(novel => sessions.some(s => s.novelId === novel.id))
+    .map(novel => {
+      const done = novel.chapters.filter(c => finished.some(s => s.novelId === novel.id && s.chapterNumber === c.chapterNumber)).length;
+      const total = novel.chapters.length;
+      return { novelId: novel.id, title: novel.title, finished: done, total, percent: total > 0 ? Math.round((done / total) * 100) : 0 };
+    })
+    .sort((a, b) => b.percent - a.percent);
+
+  return {
+    days: Array.from({ length: STATS_DAYS }, (_, i) => {
+      const date = dayKey(shiftDays(now, i - STATS_DAYS + 1));
+      return { date, time: timeByDay.get(date) || 0 };
+    }),
+    totalTime: [...timeByDay.values()].reduce((sum, time) => sum + time, 0),
+    chaptersFinished: finished.length,
+    wordsRead: Math.round([...furthest.values()].reduce((sum, s) => sum + s.words * (s.progress / 100), 0)),
+    currentStreak,
+    longestStreak,
+    novels,
+  };
+};
+
+/** "2h 05m", "12m" or "<1m". */
+export const formatReadingTime = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${pad(minutes % 60)}m`;
+};
@@ -0,0 +1,78 @@
+import { Schema, Type } from "@google/genai";
+import { MalformedResponseError } from "./aiErrors";
+
+// --- Response validation ---
+// Model output is checked against the same `Schema` objects that are sent as `responseSchema`,
+// so the declared shape and the accepted shape can't drift apart. Grounded calls can't send a
+// schema to the API, but their output is still validated here.
+
+const INVALID = Symbol('invalid');
+
+const coerce = (value: unknown, schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.STRING: {
+      const text = typeof value === 'number' ? String(value) : value;
+      if (typeof text !== 'string') return INVALID;
+      if (!schema.enum) return text;
+      // Enums match case-insensitively and come back in their declared spelling
+      return schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase()) ?? INVALID;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || !Number.isFinite(num)) return INVALID;
+      if (schema.type === Type.INTEGER && !Number.isInteger(num)) return INVALID;
+      return num;
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? value : INVALID;
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return INVALID;
+      if (!schema.items) return value;
+      return value.map(item => coerce(item, schema.items!)).filter(item => item !== INVALID);
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return INVALID;
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const required = schema.required?.includes(key);
+        if (source[key] === undefined || source[key] === null) {
+          if (required) return INVALID;
+          continue;
+        }
+        const coerced = coerce(source[key], propSchema);
+        if (coerced === INVALID) {
+          if (required) return INVALID;
+          continue;
+        }
+        result[key] = coerced;
+      }
+      return result;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Parses model JSON and checks it against a declared schema. Array items that don't match are
+ * dropped instead of failing the whole response; a non-empty array with no valid items, or any
+ * other mismatch, throws MalformedResponseError.
+ */
+export const parseWithSchema = <T>(text: string | undefined, schema: Schema): T => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text || '');
+  } catch (e) {
+    throw new MalformedResponseError("Response is not valid JSON.");
+  }
+
+  const result = coerce(data, schema);
+  if (result === INVALID) throw new MalformedResponseError("Response does not match the expected schema.");
+  if (Array.isArray(data) && Array.isArray(result)) {
+    if (data.length > 0 && result.length === 0) throw new MalformedResponseError("No valid items in response.");
+    if (result.length < data.length) console.warn(`Dropped ${data.length - result.length} malformed item(s) from model response`);
+  }
+  return result as T;
+};
@@ -0,0 +1,44 @@
+import { ReaderSettings, StoredReaderSettings } from "../types";
+import { getSetting, saveSetting } from "./storageService";
+
+const READER_SETTINGS_KEY = 'readerSettings';
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontSize: 18,
+  fontFamily: 'serif',
+  theme: 'future',
+  lineHeight: 1.8,
+  autoGenerateImage: false,
+  margin: 24,
+  contentWidth: 672,
+  paragraphSpacing: 1.25,
+  textAlign: 'left',
+  readingMode: 'scroll',
+  prefetchChapters: 2,
+  prefetchThreshold: 50,
+  prefetchStorageBudget: 500,
+  narrationVoice: '',
+  narrationRate: 1,
+  narrationPitch: 1,
+};
+
+/**
+ * Loads the global reader defaults and per-novel overrides.
+ * Fields added in later versions fall back to their defaults.
+ */
+export const loadReaderSettings = async (): Promise<StoredReaderSettings> => {
+  const saved = await getSetting<Partial<StoredReaderSettings>>(READER_SETTINGS_KEY);
+  return {
+    defaults: { ...DEFAULT_READER_SETTINGS, ...(saved?.defaults || {}) },
+    overrides: saved?.overrides || {},
+  };
+};
+
+export const saveReaderSettings = (settings: StoredReaderSettings): Promise<void> =>
+  saveSetting(READER_SETTINGS_KEY, settings);
+
+/** Resolves the effective settings for a novel (defaults + its override, if any). */
+export const resolveReaderSettings = (settings: StoredReaderSettings, novelId?: string): ReaderSettings => {
+  const override = novelId ? settings.overrides[novelId] : undefined;
+  return override ? { ...settings.defaults, ...override } : settings.defaults;
+};
@@ -0,0 +1,642 @@
+import { Annotation, LibraryItem, NovelDownloadJob, ReadingSession, StoryBible } from "../types";
+import { indexTerms } from "./textIndex";
+
+// --- IndexedDB storage layer ---
+// Chapter text, generated images and reading positions used to live in localStorage,
+// which fills up after a handful of chapters. Everything offline now goes through here.
+
+const DB_NAME = 'ranobe-reader';
+const DB_VERSION = 5;
+
+export const STORES = {
+  novels: 'novels',
+  chapters: 'chapters',
+  images: 'images',
+  positions: 'positions',
+  bibles: 'bibles',
+  sessions: 'sessions',
+  annotations: 'annotations',
+  searchIndex: 'searchIndex',
+  meta: 'meta',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface StoredChapter {
+  key: string;
+  novelId: string;
+  chapterNumber: number;
+  content: string;
+  savedAt: number;
+}
+
+export interface StoredImage {
+  key: string;
+  novelId: string;
+  chapterNumber: number;
+  blob: Blob;
+  savedAt: number;
+}
+
+export interface ReadingPosition {
+  key: string;
+  novelId: string;
+  chapterNumber: number;
+  paragraph: number; // index of the paragraph at the reading line
+  fraction: number; // 0..1, how far into that paragraph
+  scrollY?: number; // legacy pixel position, converted to a paragraph anchor when the chapter is next opened
+  offset?: number; // legacy paginated character offset, converted the same way
+  updatedAt: number;
+}
+
+export type ParagraphAnchor = Pick<ReadingPosition, 'paragraph' | 'fraction'>;
+
+/** Full-text index entry: the distinct words of a stored chapter (see textIndex). */
+interface SearchIndexEntry {
+  key: string;
+  novelId: string;
+  chapterNumber: number;
+  terms: string[];
+}
+
+interface MetaEntry {
+  key: string;
+  value: unknown;
+}
+
+const META_LIBRARY_ORDER = 'libraryOrder';
+const META_MIGRATED = 'migratedFromLocalStorage';
+const META_DOWNLOAD_QUEUE = 'downloadQueue';
+const META_API_KEY = 'geminiApiKey';
+
+// Stores holding per-chapter or per-event records of a novel, all indexed by novelId
+const NOVEL_RECORD_STORES = [STORES.chapters, STORES.images, STORES.positions, STORES.sessions, STORES.annotations, STORES.searchIndex];
+
+/** Key shared by the chapter, image, position and search index stores. */
+export const chapterKey = (novelId: string, chapterNumber: number) => `${novelId}_ch${chapterNumber}`;
+
+const searchIndexEntry = (chapter: StoredChapter): SearchIndexEntry => ({
+  key: chapter.key,
+  novelId: chapter.novelId,
+  chapterNumber: chapter.chapterNumber,
+  terms: indexTerms(chapter.content),
+});
+
+// --- Low level helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.novels)) {
+          db.createObjectStore(STORES.novels, { keyPath: 'id' });
+        }
+        for (const name of [STORES.chapters, STORES.images, STORES.positions]) {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: 'key' });
+            store.createIndex('novelId', 'novelId', { unique: false });
+          }
+        }
+        if (!db.objectStoreNames.contains(STORES.meta)) {
+          db.createObjectStore(STORES.meta, { keyPath: 'key' });
+        }
+        // v2: story bibles
+        if (!db.objectStoreNames.contains(STORES.bibles)) {
+          db.createObjectStore(STORES.bibles, { keyPath: 'novelId' });
+        }
+        // v3: reading history
+        if (!db.objectStoreNames.contains(STORES.sessions)) {
+          db.createObjectStore(STORES.sessions, { keyPath: 'id' }).createIndex('novelId', 'novelId', { unique: false });
+        }
+        // v4: bookmarks, highlights and notes
+        if (!db.objectStoreNames.contains(STORES.annotations)) {
+          db.createObjectStore(STORES.annotations, { keyPath: 'id' }).createIndex('novelId', 'novelId', { unique: false });
+        }
+        // v5: full-text search; existing chapters are indexed by indexStoredChapters()
+        if (!db.objectStoreNames.contains(STORES.searchIndex)) {
+          const store = db.createObjectStore(STORES.searchIndex, { keyPath: 'key' });
+          store.createIndex('novelId', 'novelId', { unique: false });
+          store.createIndex('terms', 'terms', { unique: false, multiEntry: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const getRecord = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+const putRecord = async (store: StoreName, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value);
+  return transactionDone(tx);
+};
+
+const getAllForNovel = async <T>(store: StoreName, novelId: string): Promise<T[]> => {
+  const db = await openDb();
+  return promisify<T[]>(db.transaction(store, 'readonly').objectStore(store).index('novelId').getAll(novelId));
+};
+
+const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const entry = await getRecord<MetaEntry>(STORES.meta, key);
+  return entry?.value as T | undefined;
+};
+
+// --- Settings ---
+
+/** Reads a user setting from the meta store (included in backups). */
+export const getSetting = <T>(key: string): Promise<T | undefined> => getMeta<T>(key);
+
+export const saveSetting = (key: string, value: unknown): Promise<void> =>
+  putRecord(STORES.meta, { key, value } as MetaEntry);
+
+/** Decodes a `data:` URL (as returned by the image generator) into a Blob. */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// --- Library ---
+
+/**
+ * Returns the saved library in the order the user last saw it.
+ */
+export const getLibrary = async (): Promise<LibraryItem[]> => {
+  const db = await openDb();
+  const items = await promisify<LibraryItem[]>(db.transaction(STORES.novels, 'readonly').objectStore(STORES.novels).getAll());
+  const order = (await getMeta<string[]>(META_LIBRARY_ORDER)) || [];
+  const rank = (id: string) => {
+    const idx = order.indexOf(id);
+    return idx === -1 ? Number.MAX_SAFE_INTEGER : idx;
+  };
+  return items.sort((a, b) => rank(a.id) - rank(b.id) || b.savedAt - a.savedAt);
+};
+
+/**
+ * Persists the full library, removing novel records that are no longer present.
+ * Chapter content is left alone; use `deleteNovelData` to purge it.
+ */
+export const saveLibrary = async (items: LibraryItem[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.novels, STORES.meta], 'readwrite');
+  const novels = tx.objectStore(STORES.novels);
+  const ids = new Set(items.map(item => item.id));
+
+  novels.getAllKeys().onsuccess = (e) => {
+    const keys = (e.target as IDBRequest<IDBValidKey[]>).result;
+    keys.forEach(key => {
+      if (!ids.has(key as string)) novels.delete(key);
+    });
+  };
+  items.forEach(item => novels.put(item));
+  tx.objectStore(STORES.meta).put({ key: META_LIBRARY_ORDER, value: items.map(item => item.id) } as MetaEntry);
+
+  return transactionDone(tx);
+};
+
+/**
+ * Removes a novel together with all of its chapters, images, reading positions, story bible,
+ * reading history and annotations.
+ */
+export const deleteNovelData = async (novelId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.novels, STORES.bibles, ...NOVEL_RECORD_STORES], 'readwrite');
+
+  tx.objectStore(STORES.novels).delete(novelId);
+  tx.objectStore(STORES.bibles).delete(novelId);
+  for (const name of NOVEL_RECORD_STORES) {
+    const store = tx.objectStore(name);
+    store.index('novelId').getAllKeys(novelId).onsuccess = (e) => {
+      (e.target as IDBRequest<IDBValidKey[]>).result.forEach(key => store.delete(key));
+    };
+  }
+
+  return transactionDone(tx);
+};
+
+/**
+ * Moves a novel's chapters, images, reading positions, story bible, reading history and
+ * annotations to another id and removes its novel record (used to merge duplicates). Where both
+ * ids have a record, the target's is kept, except for reading positions, where the newer one wins.
+ */
+export const moveNovelData = async (fromId: string, toId: string): Promise<void> => {
+  const db = await openDb();
+  const stores = [STORES.novels, STORES.chapters, STORES.images, STORES.positions, STORES.bibles, STORES.sessions, STORES.annotations, STORES.searchIndex];
+  const tx = db.transaction(stores, 'readwrite');
+
+  tx.objectStore(STORES.novels).delete(fromId);
+  const searchIndex = tx.objectStore(STORES.searchIndex);
+  for (const name of [STORES.chapters, STORES.images, STORES.positions]) {
+    const store = tx.objectStore(name);
+    store.index('novelId').getAll(fromId).onsuccess = (e) => {
+      (e.target as IDBRequest<(StoredChapter | StoredImage | ReadingPosition)[]>).result.forEach(record => {
+        const key = chapterKey(toId, record.chapterNumber);
+        store.get(key).onsuccess = (existing) => {
+          const current = (existing.target as IDBRequest<ReadingPosition | undefined>).result;
+          const newer = name === STORES.positions && current && (record as ReadingPosition).updatedAt > current.updatedAt;
+          if (current && !newer) return;
+          store.put({ ...record, key, novelId: toId });
+          if (name === STORES.chapters) searchIndex.put(searchIndexEntry({ ...record as StoredChapter, key, novelId: toId }));
+        };
+        store.delete(record.key);
+        if (name === STORES.chapters) searchIndex.delete(record.key);
+      });
+    };
+  }
+  const bibles = tx.objectStore(STORES.bibles);
+  bibles.get(fromId).onsuccess = (e) => {
+    const bible = (e.target as IDBRequest<StoryBible | undefined>).result;
+    if (!bible) return;
+    bibles.count(toId).onsuccess = (count) => {
+      if ((count.target as IDBRequest<number>).result === 0) bibles.put({ ...bible, novelId: toId });
+    };
+    bibles.delete(fromId);
+  };
+  // Reading sessions and annotations have their own ids, so they all move
+  for (const name of [STORES.sessions, STORES.annotations]) {
+    const store = tx.objectStore(name);
+    store.index('novelId').getAll(fromId).onsuccess = (e) => {
+      (e.target as IDBRequest<(ReadingSession | Annotation)[]>).result.forEach(record => store.put({ ...record, novelId: toId }));
+    };
+  }
+
+  return transactionDone(tx);
+};
+
+// --- Chapters ---
+
+export const getChapterContent = async (novelId: string, chapterNumber: number): Promise<string | null> => {
+  const record = await getRecord<StoredChapter>(STORES.chapters, chapterKey(novelId, chapterNumber));
+  return record?.content ?? null;
+};
+
+/** Saves a chapter's text and indexes it for full-text search. */
+export const saveChapterContent = (novelId: string, chapterNumber: number, content: string): Promise<void> =>
+  saveChapterContents(novelId, [{ chapterNumber, content }]);
+
+/**
+ * Stores several chapters of one novel in a single transaction (used by importers).
+ */
+export const saveChapterContents = async (novelId: string, chapters: { chapterNumber: number; content: string }[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.chapters, STORES.searchIndex], 'readwrite');
+  const store = tx.objectStore(STORES.chapters);
+  const now = Date.now();
+  chapters.forEach(({ chapterNumber, content }) => {
+    const record: StoredChapter = { key: chapterKey(novelId, chapterNumber), novelId, chapterNumber, content, savedAt: now };
+    store.put(record);
+    tx.objectStore(STORES.searchIndex).put(searchIndexEntry(record));
+  });
+  return transactionDone(tx);
+};
+
+/**
+ * Replaces all of a novel's chapters, and their search index entries, with the given ones (used
+ * when a book is imported again). Positions, annotations and the rest of its data are kept.
+ */
+export const replaceChapterContents = async (novelId: string, chapters: { chapterNumber: number; content: string }[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.chapters, STORES.searchIndex], 'readwrite');
+  const chapterStore = tx.objectStore(STORES.chapters);
+  const searchIndex = tx.objectStore(STORES.searchIndex);
+  const now = Date.now();
+  // Deletes are queued before the writes, so records of chapters that still exist are replaced
+  chapterStore.index('novelId').getAllKeys(novelId).onsuccess = (e) => {
+    (e.target as IDBRequest<IDBValidKey[]>).result.forEach(key => {
+      chapterStore.delete(key);
+      searchIndex.delete(key);
+    });
+    chapters.forEach(({ chapterNumber, content }) => {
+      const record: StoredChapter = { key: chapterKey(novelId, chapterNumber), novelId, chapterNumber, content, savedAt: now };
+      chapterStore.put(record);
+      searchIndex.put(searchIndexEntry(record));
+    });
+  };
+  return transactionDone(tx);
+};
+
+export const hasChapterContent = async (novelId: string, chapterNumber: number): Promise<boolean> => {
+  const db = await openDb();
+  const count = await promisify(db.transaction(STORES.chapters, 'readonly').objectStore(STORES.chapters).count(chapterKey(novelId, chapterNumber)));
+  return count > 0;
+};
+
+/**
+ * Lists the chapter numbers of a novel that are available offline.
+ */
+export const getDownloadedChapterNumbers = async (novelId: string): Promise<number[]> => {
+  const records = await getAllForNovel<StoredChapter>(STORES.chapters, novelId);
+  return records.map(r => r.chapterNumber).sort((a, b) => a - b);
+};
+
+/**
+ * Returns every stored chapter of a novel, ordered by chapter number.
+ */
+export const getNovelChapters = async (novelId: string): Promise<StoredChapter[]> => {
+  const records = await getAllForNovel<StoredChapter>(STORES.chapters, novelId);
+  return records.sort((a, b) => a.chapterNumber - b.chapterNumber);
+};
+
+// --- Full-text search index ---
+
+/**
+ * Chapters whose text contains every one of the (normalized) terms.
+ */
+export const findChaptersWithTerms = async (terms: string[]): Promise<{ novelId: string; chapterNumber: number }[]> => {
+  if (terms.length === 0) return [];
+  const db = await openDb();
+  const index = db.transaction(STORES.searchIndex, 'readonly').objectStore(STORES.searchIndex).index('terms');
+  const keySets = await Promise.all(terms.map(term => promisify(index.getAllKeys(term))));
+  const [first, ...others] = keySets.map(keys => new Set(keys as string[]));
+  const keys = [...first].filter(key => others.every(set => set.has(key)));
+  const store = db.transaction(STORES.searchIndex, 'readonly').objectStore(STORES.searchIndex);
+  const entries = await Promise.all(keys.map(key => promisify<SearchIndexEntry | undefined>(store.get(key))));
+  return entries.filter((e): e is SearchIndexEntry => !!e).map(({ novelId, chapterNumber }) => ({ novelId, chapterNumber }));
+};
+
+/**
+ * Indexes stored chapters that have no index entry yet (chapters saved before the index
+ * existed, migrated or restored ones). Returns how many were added.
+ */
+export const indexStoredChapters = async (): Promise<number> => {
+  const db = await openDb();
+  const indexed = new Set(await promisify(db.transaction(STORES.searchIndex, 'readonly').objectStore(STORES.searchIndex).getAllKeys()) as string[]);
+  const chapterKeys = (await promisify(db.transaction(STORES.chapters, 'readonly').objectStore(STORES.chapters).getAllKeys()) as string[])
+    .filter(key => !indexed.has(key));
+  for (const key of chapterKeys) {
+    const chapter = await getRecord<StoredChapter>(STORES.chapters, key);
+    if (chapter) await putRecord(STORES.searchIndex, searchIndexEntry(chapter));
+  }
+  return chapterKeys.length;
+};
+
+// --- Images ---
+
+export const getChapterImage = async (novelId: string, chapterNumber: number): Promise<Blob | null> => {
+  const record = await getRecord<StoredImage>(STORES.images, chapterKey(novelId, chapterNumber));
+  return record?.blob ?? null;
+};
+
+export const getNovelImages = (novelId: string): Promise<StoredImage[]> =>
+  getAllForNovel<StoredImage>(STORES.images, novelId);
+
+export const saveChapterImage = (novelId: string, chapterNumber: number, blob: Blob): Promise<void> =>
+  putRecord(STORES.images, {
+    key: chapterKey(novelId, chapterNumber),
+    novelId,
+    chapterNumber,
+    blob,
+    savedAt: Date.now(),
+  } as StoredImage);
+
+// --- Reading positions ---
+
+export const getReadingPosition = (novelId: string, chapterNumber: number): Promise<ReadingPosition | undefined> =>
+  getRecord<ReadingPosition>(STORES.positions, chapterKey(novelId, chapterNumber));
+
+/**
+ * Saves a layout-independent position. Any legacy pixel/offset fields are dropped.
+ */
+export const saveReadingPosition = (novelId: string, chapterNumber: number, anchor: ParagraphAnchor): Promise<void> =>
+  putRecord(STORES.positions, {
+    key: chapterKey(novelId, chapterNumber),
+    novelId,
+    chapterNumber,
+    paragraph: anchor.paragraph,
+    fraction: anchor.fraction,
+    updatedAt: Date.now(),
+  } as ReadingPosition);
+
+// --- Reading history ---
+
+export const getReadingSessions = async (): Promise<ReadingSession[]> => {
+  const db = await openDb();
+  return promisify<ReadingSession[]>(db.transaction(STORES.sessions, 'readonly').objectStore(STORES.sessions).getAll());
+};
+
+export const saveReadingSession = (session: ReadingSession): Promise<void> =>
+  putRecord(STORES.sessions, session);
+
+// --- Annotations ---
+
+export const getAnnotations = (novelId: string): Promise<Annotation[]> =>
+  getAllForNovel<Annotation>(STORES.annotations, novelId);
+
+export const saveAnnotation = (annotation: Annotation): Promise<void> =>
+  putRecord(STORES.annotations, annotation);
+
+export const deleteAnnotation = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.annotations, 'readwrite');
+  tx.objectStore(STORES.annotations).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Story bibles ---
+
+export const getStoryBible = (novelId: string): Promise<StoryBible | undefined> =>
+  getRecord<StoryBible>(STORES.bibles, novelId);
+
+export const saveStoryBible = (bible: StoryBible): Promise<void> =>
+  putRecord(STORES.bibles, bible);
+
+// --- Download queue ---
+
+export const getDownloadQueue = async (): Promise<NovelDownloadJob[]> =>
+  (await getMeta<NovelDownloadJob[]>(META_DOWNLOAD_QUEUE)) || [];
+
+export const saveDownloadQueue = (jobs: NovelDownloadJob[]): Promise<void> =>
+  putRecord(STORES.meta, { key: META_DOWNLOAD_QUEUE, value: jobs } as MetaEntry);
+
+// --- API key ---
+// The user's own Gemini key. It belongs to this device: backups never include it and a
+// replacing restore keeps it.
+
+export const getApiKey = async (): Promise<string | null> =>
+  (await getMeta<string>(META_API_KEY)) || null;
+
+export const saveApiKey = async (apiKey: string | null): Promise<void> => {
+  if (apiKey) return putRecord(STORES.meta, { key: META_API_KEY, value: apiKey } as MetaEntry);
+  const db = await openDb();
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  tx.objectStore(STORES.meta).delete(META_API_KEY);
+  return transactionDone(tx);
+};
+
+// --- Snapshots (backup / restore) ---
+
+// Meta keys that are storage bookkeeping or device secrets rather than user settings
+const INTERNAL_META_KEYS = new Set([META_LIBRARY_ORDER, META_MIGRATED, META_DOWNLOAD_QUEUE, META_API_KEY]);
+
+export interface StorageSnapshot {
+  novels: LibraryItem[]; // in library order
+  chapters: StoredChapter[];
+  images: StoredImage[];
+  positions: ReadingPosition[];
+  bibles: StoryBible[];
+  sessions: ReadingSession[];
+  annotations: Annotation[];
+  settings: Record<string, unknown>;
+}
+
+/**
+ * Reads everything in the database in one consistent transaction.
+ */
+export const readSnapshot = async (): Promise<StorageSnapshot> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.chapters, STORES.images, STORES.positions, STORES.bibles, STORES.sessions, STORES.annotations, STORES.meta], 'readonly');
+  const [chapters, images, positions, bibles, sessions, annotations, meta] = await Promise.all([
+    promisify<StoredChapter[]>(tx.objectStore(STORES.chapters).getAll()),
+    promisify<StoredImage[]>(tx.objectStore(STORES.images).getAll()),
+    promisify<ReadingPosition[]>(tx.objectStore(STORES.positions).getAll()),
+    promisify<StoryBible[]>(tx.objectStore(STORES.bibles).getAll()),
+    promisify<ReadingSession[]>(tx.objectStore(STORES.sessions).getAll()),
+    promisify<Annotation[]>(tx.objectStore(STORES.annotations).getAll()),
+    promisify<MetaEntry[]>(tx.objectStore(STORES.meta).getAll()),
+  ]);
+  const settings: Record<string, unknown> = {};
+  meta.forEach(entry => {
+    if (!INTERNAL_META_KEYS.has(entry.key)) settings[entry.key] = entry.value;
+  });
+  return { novels: await getLibrary(), chapters, images, positions, bibles, sessions, annotations, settings };
+};
+
+/**
+ * Writes a snapshot in a single transaction. `replace` wipes every store first;
+ * otherwise records are upserted and new novels are appended to the library order.
+ * All stored data of the `clearNovelIds` novels is removed in the same transaction before
+ * the snapshot is written, so a failed write leaves them untouched.
+ */
+export const writeSnapshot = async (snapshot: StorageSnapshot, replace: boolean, clearNovelIds: string[] = []): Promise<void> => {
+  const currentOrder = replace ? [] : (await getMeta<string[]>(META_LIBRARY_ORDER)) || [];
+  const order = [...currentOrder, ...snapshot.novels.map(n => n.id).filter(id => !currentOrder.includes(id))];
+  const apiKey = replace ? await getApiKey() : null;
+
+  const db = await openDb();
+  // Look the keys up first: deletes queued from request callbacks would run after the writes below
+  const lookup = db.transaction(NOVEL_RECORD_STORES, 'readonly');
+  const cleared = replace ? [] : await Promise.all(NOVEL_RECORD_STORES.flatMap(name => clearNovelIds.map(async id =>
+    ({ name, keys: await promisify(lookup.objectStore(name).index('novelId').getAllKeys(id)) }))));
+
+  const tx = db.transaction([STORES.novels, STORES.chapters, STORES.images, STORES.positions, STORES.bibles, STORES.sessions, STORES.annotations, STORES.searchIndex, STORES.meta], 'readwrite');
+  if (replace) {
+    [STORES.novels, STORES.chapters, STORES.images, STORES.positions, STORES.bibles, STORES.sessions, STORES.annotations, STORES.searchIndex, STORES.meta].forEach(name => tx.objectStore(name).clear());
+    tx.objectStore(STORES.meta).put({ key: META_MIGRATED, value: true } as MetaEntry);
+    if (apiKey) tx.objectStore(STORES.meta).put({ key: META_API_KEY, value: apiKey } as MetaEntry);
+  } else {
+    clearNovelIds.forEach(id => {
+      tx.objectStore(STORES.novels).delete(id);
+      tx.objectStore(STORES.bibles).delete(id);
+    });
+    cleared.forEach(({ name, keys }) => keys.forEach(key => tx.objectStore(name).delete(key)));
+  }
+  snapshot.novels.forEach(item => tx.objectStore(STORES.novels).put(item));
+  snapshot.chapters.forEach(record => {
+    tx.objectStore(STORES.chapters).put(record);
+    tx.objectStore(STORES.searchIndex).put(searchIndexEntry(record));
+  });
+  snapshot.images.forEach(record => tx.objectStore(STORES.images).put(record));
+  snapshot.positions.forEach(record => tx.objectStore(STORES.positions).put(record));
+  snapshot.bibles.forEach(record => tx.objectStore(STORES.bibles).put(record));
+  snapshot.sessions.forEach(record => tx.objectStore(STORES.sessions).put(record));
+  snapshot.annotations.forEach(record => tx.objectStore(STORES.annotations).put(record));
+  Object.entries(snapshot.settings).forEach(([key, value]) => {
+    if (!INTERNAL_META_KEYS.has(key)) tx.objectStore(STORES.meta).put({ key, value } as MetaEntry);
+  });
+  tx.objectStore(STORES.meta).put({ key: META_LIBRARY_ORDER, value: order } as MetaEntry);
+  return transactionDone(tx);
+};
+
+// --- One-time migration from localStorage ---
+
+const LEGACY_CHAPTER_KEY = /^novel_content_(.+)_ch(\d+)$/;
+const LEGACY_IMAGE_KEY = /^img_(.+)_ch(\d+)$/;
+const LEGACY_SCROLL_KEY = /^scroll_(.+)_ch(\d+)$/;
+
+/**
+ * Copies the legacy `my_library`, `novel_content_*`, `img_*` and `scroll_*` localStorage keys
+ * into IndexedDB, then frees them. Safe to call on every start; it only runs once.
+ */
+export const migrateFromLocalStorage = async (): Promise<void> => {
+  if (await getMeta<boolean>(META_MIGRATED)) return;
+
+  const migratedKeys: string[] = [];
+  const chapters: StoredChapter[] = [];
+  const images: StoredImage[] = [];
+  const positions: ReadingPosition[] = [];
+  let library: LibraryItem[] = [];
+  const now = Date.now();
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+
+    let match: RegExpMatchArray | null;
+    try {
+      if (key === 'my_library') {
+        library = JSON.parse(value);
+      } else if ((match = key.match(LEGACY_CHAPTER_KEY))) {
+        const chapterNumber = parseInt(match[2]);
+        chapters.push({ key: chapterKey(match[1], chapterNumber), novelId: match[1], chapterNumber, content: value, savedAt: now });
+      } else if ((match = key.match(LEGACY_IMAGE_KEY))) {
+        const chapterNumber = parseInt(match[2]);
+        images.push({ key: chapterKey(match[1], chapterNumber), novelId: match[1], chapterNumber, blob: dataUrlToBlob(value), savedAt: now });
+      } else if ((match = key.match(LEGACY_SCROLL_KEY))) {
+        const chapterNumber = parseInt(match[2]);
+        positions.push({ key: chapterKey(match[1], chapterNumber), novelId: match[1], chapterNumber, paragraph: 0, fraction: 0, scrollY: parseInt(value) || 0, updatedAt: now });
+      } else {
+        continue;
+      }
+      migratedKeys.push(key);
+    } catch (e) {
+      console.error(`Storage migration: skipping unreadable key ${key}`, e);
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([STORES.novels, STORES.chapters, STORES.images, STORES.positions, STORES.meta], 'readwrite');
+  library.forEach(item => tx.objectStore(STORES.novels).put(item));
+  chapters.forEach(record => tx.objectStore(STORES.chapters).put(record));
+  images.forEach(record => tx.objectStore(STORES.images).put(record));
+  positions.forEach(record => tx.objectStore(STORES.positions).put(record));
+  if (library.length > 0) {
+    tx.objectStore(STORES.meta).put({ key: META_LIBRARY_ORDER, value: library.map(item => item.id) } as MetaEntry);
+  }
+  tx.objectStore(STORES.meta).put({ key: META_MIGRATED, value: true } as MetaEntry);
+  await transactionDone(tx);
+
+  // Only free the old keys once everything is safely committed.
+  migratedKeys.forEach(key => localStorage.removeItem(key));
+};
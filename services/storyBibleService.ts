@@ -0,0 +1,90 @@
+import { ChapterMetadata, ChapterNotes, Novel, StoryBible } from "../types";
+import { getStoryBible, saveStoryBible } from "./storageService";
+import { getAiBackend } from "./aiBackend";
+
+// --- Story bible ---
+// Generated chapters are written one call at a time, so the model only knows the story through
+// these notes: a rolling summary per chapter, a character roster and a glossary.
+
+// Only the most recent summaries go into a prompt, to keep it a reasonable size
+const MAX_CONTEXT_SUMMARIES = 12;
+
+export const emptyStoryBible = (novelId: string): StoryBible => ({
+  novelId,
+  summaries: [],
+  characters: [],
+  glossary: [],
+  updatedAt: Date.now(),
+});
+
+export const loadStoryBible = async (novelId: string): Promise<StoryBible> =>
+  (await getStoryBible(novelId)) || emptyStoryBible(novelId);
+
+export const isStoryBibleEmpty = (bible: StoryBible) =>
+  bible.summaries.length === 0 && bible.characters.length === 0 && bible.glossary.length === 0;
+
+/**
+ * Formats the bible as prompt context. Only summaries of chapters before `beforeChapter` are included.
+ */
+export const formatStoryContext = (bible: StoryBible, beforeChapter?: number): string => {
+  const summaries = bible.summaries
+    .filter(s => beforeChapter === undefined || s.chapterNumber < beforeChapter)
+    .slice(-MAX_CONTEXT_SUMMARIES);
+  const sections: string[] = [];
+  if (summaries.length > 0) {
+    sections.push(`Story so far:\n${summaries.map(s => `- Chapter ${s.chapterNumber}: ${s.summary}`).join('\n')}`);
+  }
+  if (bible.characters.length > 0) {
+    sections.push(`Characters:\n${bible.characters.map(c => `- ${c.name}: ${c.description}`).join('\n')}`);
+  }
+  if (bible.glossary.length > 0) {
+    sections.push(`Glossary:\n${bible.glossary.map(g => `- ${g.term}: ${g.definition}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+/** Prompt context for generating a chapter, or undefined while the bible is empty. */
+export const getStoryContext = async (novelId: string, chapterNumber: number): Promise<string | undefined> => {
+  const context = formatStoryContext(await loadStoryBible(novelId), chapterNumber);
+  return context || undefined;
+};
+
+// Later entries replace earlier ones with the same (case-insensitive) key
+const mergeByKey = <T>(existing: T[], updates: T[], keyOf: (item: T) => string): T[] => {
+  const merged = new Map(existing.map(item => [keyOf(item).trim().toLowerCase(), item]));
+  updates.forEach(item => {
+    const key = keyOf(item).trim().toLowerCase();
+    if (key) merged.set(key, item);
+  });
+  return Array.from(merged.values());
+};
+
+export const mergeChapterNotes = (bible: StoryBible, chapterNumber: number, notes: ChapterNotes): StoryBible => ({
+  ...bible,
+  summaries: [...bible.summaries.filter(s => s.chapterNumber !== chapterNumber), { chapterNumber, summary: notes.summary }]
+    .sort((a, b) => a.chapterNumber - b.chapterNumber),
+  characters: mergeByKey(bible.characters, notes.characters, c => c.name),
+  glossary: mergeByKey(bible.glossary, notes.glossary, g => g.term),
+  updatedAt: Date.now(),
+});
+
+// Updates run one at a time per novel so parallel downloads don't overwrite each other
+const pendingUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Summarizes a stored chapter and merges the result into its novel's bible.
+ */
+export const recordChapterInBible = (novel: Novel, chapter: ChapterMetadata, content: string): Promise<void> => {
+  const previous = pendingUpdates.get(novel.id) || Promise.resolve();
+  const update = previous.catch(() => {}).then(async () => {
+    const bible = await loadStoryBible(novel.id);
+    const notes = await getAiBackend().summarizeChapter(novel.title, chapter.chapterNumber, chapter.title, content, formatStoryContext(bible, chapter.chapterNumber) || undefined);
+    // Re-read in case the user edited the bible while the summary was generating
+    await saveStoryBible(mergeChapterNotes(await loadStoryBible(novel.id), chapter.chapterNumber, notes));
+  });
+  pendingUpdates.set(novel.id, update);
+  update.finally(() => {
+    if (pendingUpdates.get(novel.id) === update) pendingUpdates.delete(novel.id);
+  }).catch(() => {});
+  return update;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findPhrase, indexTerms, parseQuery, tokenSpans } from './textIndex';
+
+describe('tokenSpans', () => {
+  it('lowercases, strips accents and keeps the original offsets', () => {
+    expect(tokenSpans('Café, Jin-Woo!')).toEqual([
+      { token: 'cafe', start: 0, end: 4 },
+      { token: 'jin', start: 6, end: 9 },
+      { token: 'woo', start: 10, end: 13 },
+    ]);
+  });
+
+  it('splits Chinese and Japanese text into characters', () => {
+    expect(tokenSpans('影の軍団 army').map(s => s.token)).toEqual(['影', 'の', '軍', '団', 'army']);
+  });
+});
+
+describe('indexTerms', () => {
+  it('lists the distinct words of the rendered text', () => {
+    expect(indexTerms('# Arise\n\n**Arise**, Igris.[^1]\n\n[^1]: A knight.')).toEqual(['arise', 'igris']);
+  });
+
+  it('keeps the words of consecutive quote paragraphs apart', () => {
+    expect(indexTerms('> Run\n> Now')).toEqual(['run', 'now']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('keeps quoted phrases together and splits the rest into words', () => {
+    expect(parseQuery('"Shadow Army" igris  Beru')).toEqual([['shadow', 'army'], ['igris'], ['beru']]);
+  });
+
+  it('treats an unclosed quote as a phrase to the end', () => {
+    expect(parseQuery('"shadow army')).toEqual([['shadow', 'army']]);
+  });
+});
+
+describe('findPhrase', () => {
+  it('matches consecutive words only', () => {
+    const spans = tokenSpans('The shadow army rose. Shadow, then army.');
+    expect(findPhrase(spans, ['shadow', 'army'])).toEqual([{ start: 4, end: 15 }]);
+  });
+});
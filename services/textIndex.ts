@@ -0,0 +1,49 @@
+import { parseMarkdown } from "./markdownService";
+import { blockText } from "./annotationService";
+
+// --- Text indexing ---
+// Words are matched case- and accent-insensitively. Chinese and Japanese characters are indexed
+// one by one, since those languages don't separate words with spaces.
+
+const TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}])+/gu;
+
+export const normalizeToken = (token: string) =>
+  token.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').normalize('NFC').toLowerCase();
+
+export interface TokenSpan {
+  token: string; // normalized
+  start: number; // offsets into the original text
+  end: number;
+}
+
+export const tokenSpans = (text: string): TokenSpan[] =>
+  Array.from(text.matchAll(TOKEN), m => ({ token: normalizeToken(m[0]), start: m.index!, end: m.index! + m[0].length }));
+
+/** Distinct words of a chapter (Markdown), as stored in the search index. */
+export const indexTerms = (content: string): string[] =>
+  [...new Set(parseMarkdown(content).blocks.flatMap(block => tokenSpans(blockText(block)).map(span => span.token)))];
+
+/**
+ * Splits a query into phrases (token sequences). Quoted parts are phrases; other words are
+ * one-word phrases. `"shadow army" igris` → [['shadow', 'army'], ['igris']].
+ */
+export const parseQuery = (query: string): string[][] => {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    phrases.push(tokenSpans(phrase).map(span => span.token));
+    return ' ';
+  });
+  tokenSpans(rest).forEach(span => phrases.push([span.token]));
+  return phrases.filter(phrase => phrase.length > 0);
+};
+
+/** Offsets of every occurrence of `phrase` in the spans. */
+export const findPhrase = (spans: TokenSpan[], phrase: string[]): { start: number; end: number }[] => {
+  const found: { start: number; end: number }[] = [];
+  for (let i = 0; i + phrase.length <= spans.length; i++) {
+    if (phrase.every((token, j) => spans[i + j].token === token)) {
+      found.push({ start: spans[i].start, end: spans[i + phrase.length - 1].end });
+    }
+  }
+  return found;
+};
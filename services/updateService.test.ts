@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyUpdate, canCheckForUpdates, checkForUpdates, markChapterSeen } from './updateService';
+import { registerProvider } from './contentProviders';
+import { ApiKeyMissingError, NetworkError } from './aiErrors';
+import { ChapterMetadata, LibraryItem } from '../types';
+import { makeChapter, makeNovel } from '../test/fixtures';
+
+const getMoreChapters = vi.fn<(novel: LibraryItem) => Promise<ChapterMetadata[]>>();
+
+registerProvider({
+  id: 'test',
+  name: 'Test',
+  requiresNetwork: true,
+  getChapterList: async () => [],
+  getChapterContent: async () => '',
+  getMoreChapters,
+  updateChecks: 'automatic',
+});
+
+registerProvider({
+  id: 'generated',
+  name: 'Generated',
+  requiresNetwork: false,
+  getChapterList: async () => [],
+  getChapterContent: async () => '',
+  getMoreChapters,
+  updateChecks: 'manual',
+});
+
+const chapter = (n: number) => makeChapter('Novel', n);
+
+const novel = (id: string, overrides: Partial<LibraryItem> = {}) =>
+  makeNovel(id, { providerId: 'test', chapters: [chapter(1), chapter(2)], ...overrides });
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('canCheckForUpdates', () => {
+  it('only checks ongoing novels whose provider can list more chapters', () => {
+    expect(canCheckForUpdates(novel('a'), true)).toBe(true);
+    expect(canCheckForUpdates(novel('a', { status: 'Completed' }), true)).toBe(false);
+    expect(canCheckForUpdates(novel('a', { providerId: 'epub' }), true)).toBe(false);
+  });
+
+  it('leaves providers that only check on request to manual checks', () => {
+    expect(canCheckForUpdates(novel('a', { providerId: 'generated' }), true)).toBe(true);
+    expect(canCheckForUpdates(novel('a', { providerId: 'generated' }), true, true)).toBe(false);
+    expect(canCheckForUpdates(novel('a'), true, true)).toBe(true);
+  });
+
+  it('skips network providers while offline', () => {
+    expect(canCheckForUpdates(novel('a'), false)).toBe(false);
+  });
+});
+
+describe('checkForUpdates', () => {
+  it('reports only chapters the novel did not have', async () => {
+    getMoreChapters
+      .mockResolvedValueOnce([chapter(2), chapter(3), chapter(4)])
+      .mockResolvedValueOnce([]);
+
+    const result = await checkForUpdates([novel('a'), novel('b')]);
+
+    expect(result.updates).toEqual([{ novelId: 'a', chapters: [chapter(3), chapter(4)] }]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it('skips novels that fail and keeps checking the rest', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const error = new NetworkError();
+    getMoreChapters
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce([chapter(3)]);
+
+    const result = await checkForUpdates([novel('a'), novel('b')]);
+
+    expect(result.updates.map(u => u.novelId)).toEqual(['b']);
+    expect(result.failures).toEqual([error]);
+  });
+
+  it('stops at a missing API key', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    getMoreChapters.mockRejectedValue(new ApiKeyMissingError());
+
+    const result = await checkForUpdates([novel('a'), novel('b'), novel('c')]);
+
+    expect(getMoreChapters).toHaveBeenCalledTimes(1);
+    expect(result.failures).toHaveLength(1);
+  });
+});
+
+describe('applyUpdate', () => {
+  it('appends the chapters and flags them as new', () => {
+    const now = new Date('2026-01-02T03:04:05Z');
+
+    const updated = applyUpdate(novel('a', { newChapterIds: ['2'] }), [chapter(3)], now);
+
+    expect(updated.chapters.map(c => c.chapterNumber)).toEqual([1, 2, 3]);
+    expect(updated.totalChapters).toBe(3);
+    expect(updated.newChapterIds).toEqual(['2', '3']);
+    expect(updated.lastUpdated).toBe('2026-01-02T03:04:05.000Z');
+  });
+
+  it('leaves the novel untouched when nothing is new', () => {
+    const original = novel('a');
+    expect(applyUpdate(original, [chapter(1)])).toBe(original);
+  });
+});
+
+describe('markChapterSeen', () => {
+  it('clears the flag of an opened chapter', () => {
+    const original = novel('a', { newChapterIds: ['2', '3'] });
+
+    expect(markChapterSeen(original, '2').newChapterIds).toEqual(['3']);
+    expect(markChapterSeen(original, '1')).toBe(original);
+  });
+});
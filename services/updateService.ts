@@ -0,0 +1,68 @@
+import { ChapterMetadata, LibraryItem } from "../types";
+import { ApiKeyMissingError } from "./aiErrors";
+import { getProviderForNovel } from "./contentProviders";
+import { appendChapters } from "./chapterListService";
+
+// --- Update checks ---
+// Ongoing novels gain chapters after they are added to the library. A check asks each novel's
+// provider for chapters past its known list; new ones are appended and flagged until opened.
+
+export interface NovelUpdate {
+  novelId: string;
+  chapters: ChapterMetadata[]; // only the chapters the novel didn't have, in reading order
+}
+
+export interface UpdateCheckResult {
+  updates: NovelUpdate[]; // novels with new chapters
+  failures: unknown[]; // errors of the novels that couldn't be checked
+}
+
+/**
+ * Whether a check looks at this novel: ongoing, and its provider supports update checks.
+ * Automatic checks skip providers that only allow them on request.
+ */
+export const canCheckForUpdates = (novel: LibraryItem, isOnline: boolean, automatic = false): boolean => {
+  const provider = getProviderForNovel(novel);
+  const allowed = automatic ? provider.updateChecks === 'automatic' : !!provider.updateChecks;
+  return novel.status === 'Ongoing' && allowed && !!provider.getMoreChapters && (isOnline || !provider.requiresNetwork);
+};
+
+/**
+ * Checks the novels one at a time. A novel that fails is skipped; a missing API key ends the
+ * check, since every remaining call would fail the same way.
+ */
+export const checkForUpdates = async (novels: LibraryItem[]): Promise<UpdateCheckResult> => {
+  const result: UpdateCheckResult = { updates: [], failures: [] };
+  for (const novel of novels) {
+    try {
+      const batch = await getProviderForNovel(novel).getMoreChapters!(novel);
+      const known = new Set(novel.chapters.map(c => c.chapterNumber));
+      const chapters = appendChapters(novel, batch).chapters.filter(c => !known.has(c.chapterNumber));
+      if (chapters.length > 0) result.updates.push({ novelId: novel.id, chapters });
+    } catch (e) {
+      console.error(`Update check failed for "${novel.title}"`, e);
+      result.failures.push(e);
+      if (e instanceof ApiKeyMissingError) break;
+    }
+  }
+  return result;
+};
+
+/** Adds the new chapters to a novel, flags them as unread and stamps `lastUpdated`. */
+export const applyUpdate = (novel: LibraryItem, chapters: ChapterMetadata[], now = new Date()): LibraryItem => {
+  const known = new Set(novel.chapters.map(c => c.chapterNumber));
+  const updated = appendChapters(novel, chapters);
+  const added = updated.chapters.filter(c => !known.has(c.chapterNumber));
+  if (added.length === 0) return novel;
+  return {
+    ...updated,
+    newChapterIds: [...(novel.newChapterIds || []), ...added.map(c => c.id)],
+    lastUpdated: now.toISOString(),
+  };
+};
+
+/** Clears a chapter's "new" flag once it has been opened. */
+export const markChapterSeen = (novel: LibraryItem, chapterId: string): LibraryItem =>
+  novel.newChapterIds?.includes(chapterId)
+    ? { ...novel, newChapterIds: novel.newChapterIds.filter(id => id !== chapterId) }
+    : novel;
@@ -0,0 +1,31 @@
+import { ChapterMetadata, LibraryItem } from '../types';
+
+// --- Test fixtures ---
+// Library entries for tests. Anything a test depends on is passed as an override.
+
+export const makeChapter = (novelId: string, chapterNumber: number, overrides: Partial<ChapterMetadata> = {}): ChapterMetadata => ({
+  id: String(chapterNumber),
+  novelId,
+  title: `Chapter ${chapterNumber}`,
+  chapterNumber,
+  ...overrides,
+});
+
+/** An ongoing, downloaded novel; chapters 1 and 2 unless `chapters` is given. */
+export const makeNovel = (id: string, overrides: Partial<LibraryItem> = {}): LibraryItem => {
+  const chapters = overrides.chapters ?? [1, 2].map(n => makeChapter(id, n));
+  return {
+    id,
+    title: `Novel ${id}`,
+    author: 'Author',
+    description: '',
+    coverUrl: '',
+    tags: [],
+    status: 'Ongoing',
+    downloaded: true,
+    totalChapters: chapters.length,
+    savedAt: 0,
+    ...overrides,
+    chapters,
+  };
+};
@@ -0,0 +1,11 @@
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom has no layout or scrolling; tests that care stub these further
+window.scrollTo = vi.fn() as unknown as typeof window.scrollTo;
+
+afterEach(() => {
+  cleanup();
+  vi.mocked(window.scrollTo).mockClear();
+});
@@ -6,7 +6,8 @@ export interface Novel {
   coverUrl: string;
   tags: string[];
   status: 'Ongoing' | 'Completed';
-  lastUpdated?: string;
+  lastUpdated?: string; // when the novel last gained chapters (publication date for EPUBs)
+  providerId?: string; // ContentProvider that produced this entry (defaults to Gemini)
 }
 
 export interface ChapterMetadata {
@@ -14,6 +15,7 @@ export interface ChapterMetadata {
   novelId: string;
   title: string;
   chapterNumber: number;
+  volume?: string; // volume or arc the chapter belongs to, e.g. "Volume 1: The Weakest Hunter"
 }
 
 export interface LibraryItem extends Novel {
@@ -21,10 +23,148 @@ export interface LibraryItem extends Novel {
   totalChapters: number; 
   savedAt: number;
   chapters: ChapterMetadata[]; // List of available chapters
+  hasMoreChapters?: boolean; // false once the source has nothing past the known list
+  newChapterIds?: string[]; // found by an update check and not opened yet
   lastReadChapterId?: string;
 }
 
-export type ViewState = 'library' | 'search' | 'reader';
+/** One stretch of reading in a chapter, logged by the Reader. */
+export interface ReadingSession {
+  id: string;
+  novelId: string;
+  chapterNumber: number;
+  startedAt: number;
+  endedAt: number;
+  progress: number; // 0..100, furthest point reached in the chapter during the session
+  words: number; // word count of the chapter text
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+/** A point in chapter text: a paragraph (source line, as in `data-paragraph`) and a character offset into its text. */
+export interface TextAnchor {
+  paragraph: number;
+  offset: number;
+}
+
+/** A bookmark or highlight the reader placed in a chapter, optionally with a note. */
+export interface Annotation {
+  id: string;
+  novelId: string;
+  chapterNumber: number;
+  kind: 'bookmark' | 'highlight';
+  start: TextAnchor; // bookmarks point at the start of their paragraph
+  end?: TextAnchor; // highlights only
+  text: string; // highlighted text, or the opening of the bookmarked paragraph; used to find moved highlights
+  color?: HighlightColor; // highlights only
+  note?: string;
+  createdAt: number;
+}
+
+/** A full-text search match the Reader scrolls to and marks when the chapter opens. */
+export interface SearchFocus {
+  novelId: string;
+  chapterNumber: number;
+  paragraph: number;
+  ranges: { start: number; end: number }[]; // character offsets into the paragraph's text
+}
+
+export interface ChapterSummary {
+  chapterNumber: number;
+  summary: string;
+}
+
+export interface StoryCharacter {
+  name: string;
+  description: string;
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+/**
+ * Continuity notes for a generated novel: what happened so far, who is in it and its
+ * invented terms. Fed into every chapter prompt and updated after each chapter is saved.
+ */
+export interface StoryBible {
+  novelId: string;
+  summaries: ChapterSummary[]; // sorted by chapter number
+  characters: StoryCharacter[];
+  glossary: GlossaryEntry[];
+  updatedAt: number;
+}
+
+/** What the model extracts from one chapter for the story bible. */
+export interface ChapterNotes {
+  summary: string;
+  characters: StoryCharacter[];
+  glossary: GlossaryEntry[];
+}
+
+/**
+ * The generative AI calls the app makes. Gemini implements it; a deterministic mock
+ * (services/mockAiService.ts) stands in for offline development and tests.
+ */
+export interface AiBackend {
+  searchNovels: (query: string) => Promise<Novel[]>;
+  // The batch after `known` (from chapter 1 when omitted); empty when the novel has no more chapters
+  getChapterList: (novel: Novel, known?: ChapterMetadata[]) => Promise<ChapterMetadata[]>;
+  downloadChapterContent: (novelTitle: string, chapterNumber: number, chapterTitle: string, storyContext?: string) => Promise<string>;
+  streamChapterContent: (novelTitle: string, chapterNumber: number, chapterTitle: string, storyContext?: string, signal?: AbortSignal) => AsyncGenerator<string, string>;
+  summarizeChapter: (novelTitle: string, chapterNumber: number, chapterTitle: string, content: string, storyContext?: string) => Promise<ChapterNotes>;
+  generateChapterImage: (chapterContent: string) => Promise<string>; // data: URL
+}
+
+/**
+ * A source of novels and chapter text. Gemini generation is one provider;
+ * local files or HTTP/OPDS catalogues can be registered alongside it.
+ */
+export interface ContentProvider {
+  id: string;
+  name: string;
+  requiresNetwork: boolean;
+  search?: (query: string) => Promise<Novel[]>;
+  getChapterList: (novel: Novel) => Promise<ChapterMetadata[]>;
+  getChapterContent: (novel: Novel, chapter: ChapterMetadata) => Promise<string>;
+  // Optional: chapters after the novel's known list; an empty list when there are no more
+  getMoreChapters?: (novel: LibraryItem) => Promise<ChapterMetadata[]>;
+  // Optional: whether update checks may call getMoreChapters. 'manual' limits them to the
+  // library's button, for providers that write new chapters rather than find published ones.
+  updateChecks?: 'automatic' | 'manual';
+  // Optional: yields the text so far while generating and returns the final, validated text
+  streamChapterContent?: (novel: Novel, chapter: ChapterMetadata, signal?: AbortSignal) => AsyncGenerator<string, string>;
+  // Optional: called once a chapter's text has been stored
+  onChapterStored?: (novel: Novel, chapter: ChapterMetadata, content: string) => Promise<void>;
+}
+
+export type ChapterDownloadStatus = 'queued' | 'downloading' | 'retrying' | 'failed';
+
+export interface ChapterDownloadTask {
+  chapterNumber: number;
+  status: ChapterDownloadStatus;
+  attempts: number;
+  priority?: boolean; // requested by the reader; runs even while the job is paused
+  prefetch?: boolean; // queued by read-ahead; dropped when the reader closes
+  nextAttemptAt?: number; // when a retrying task becomes eligible again
+  error?: string;
+}
+
+/** Queued chapter downloads for one novel. Finished chapters are removed from `tasks`. */
+export interface NovelDownloadJob {
+  novelId: string;
+  title: string;
+  paused: boolean;
+  pausedBy?: string; // error that paused the job, when it wasn't the user
+  background?: boolean; // only holds read-ahead work, so finishing it isn't announced
+  total: number; // chapters queued in this job, including finished ones
+  completed: number;
+  tasks: ChapterDownloadTask[];
+  createdAt: number;
+}
+
+export type ViewState = 'library' | 'search' | 'reader' | 'settings';
 
 export interface ReaderSettings {
   fontSize: number;
@@ -32,10 +172,44 @@ export interface ReaderSettings {
   theme: 'future' | 'light' | 'sepia' | 'dark';
   lineHeight: number;
   autoGenerateImage: boolean;
+  margin: number; // horizontal padding in px
+  contentWidth: number; // max text column width in px
+  paragraphSpacing: number; // space after each paragraph in em
+  textAlign: 'left' | 'justify';
+  readingMode: 'scroll' | 'paged';
+  prefetchChapters: number; // chapters to download ahead while reading (0 = off)
+  prefetchThreshold: number; // percent of the current chapter read before prefetching starts
+  prefetchStorageBudget: number; // MB of site storage above which prefetching stops
+  narrationVoice: string; // voiceURI of the speech synthesis voice ('' = browser default)
+  narrationRate: number;
+  narrationPitch: number;
+}
+
+export interface StoredReaderSettings {
+  defaults: ReaderSettings;
+  overrides: Record<string, Partial<ReaderSettings>>; // keyed by LibraryItem.id
+}
+
+// Gemini calls that can be tuned (see services/aiConfigService.ts)
+export type AiTask = 'search' | 'chapterList' | 'chapterText' | 'chapterNotes' | 'sceneSummary' | 'image';
+
+export interface AiTaskConfig {
+  model: string;
+  temperature: number;
+  prompt: string; // template; {{variable}} placeholders are filled in for each call
+  targetLength: number; // unit depends on the task (results, chapters, words...)
+}
+
+export type AiConfig = Record<AiTask, AiTaskConfig>;
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 export interface ToastMessage {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info' | 'loading';
+  action?: ToastAction; // Recovery step offered next to the message
 }
\ No newline at end of file
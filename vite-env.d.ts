@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "mock" swaps Gemini for the offline mock backend (services/aiBackend.ts)
+  readonly VITE_AI_BACKEND?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}